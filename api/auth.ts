@@ -2,7 +2,25 @@ import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
 import bcrypt from 'bcrypt';
 import { storage } from './storage-instance.js';
-import { type User } from '../shared/schema.js';
+import { type User, type UserRole } from '../shared/schema.js';
+
+// Comma-separated emails of users who are made admins when they sign up or log in, so
+// deployments whose users predate roles can appoint an admin
+const ADMIN_EMAILS = new Set((process.env.ADMIN_EMAILS ?? '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean));
+
+export const isConfiguredAdmin = (email: string) => ADMIN_EMAILS.has(email.toLowerCase());
+
+/**
+ * Create an account. Configured admins and the very first user administer the app;
+ * everyone else starts as a learner. Signups are serialized on the user count, so two
+ * concurrent first signups cannot both become admin.
+ */
+export const createAccount = async (email: string, hashedPassword: string): Promise<User> => {
+  return await storage.transaction(async tx => {
+    const role: UserRole = isConfiguredAdmin(email) || (await tx.countUsers()) === 0 ? 'admin' : 'learner';
+    return await tx.createUser({ email, hashedPassword, role });
+  }, { isolationLevel: 'serializable' });
+};
 
 // Configure the local strategy for use by Passport.
 passport.use(new LocalStrategy({ usernameField: 'email' },
@@ -18,6 +36,9 @@ passport.use(new LocalStrategy({ usernameField: 'email' },
         return done(null, false, { message: 'Incorrect email or password.' });
       }
 
+      if (user.role !== 'admin' && isConfiguredAdmin(user.email)) {
+        return done(null, await storage.updateUser(user.id, { role: 'admin' }) ?? user);
+      }
       return done(null, user);
     } catch (err) {
       return done(err);
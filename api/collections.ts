@@ -0,0 +1,180 @@
+import { storage } from "./storage-instance.js";
+import { attachSenses } from "./word-senses.js";
+import type { Collection, CollectionWord, CollectionWithWords, PublicDeck, PublicDeckDetail, Word } from "../shared/schema.js";
+
+// Words listed in the collections that the user can see: private words of others and
+// words in the trash are left out
+async function visibleEntries(userId: string, collections: Collection[]): Promise<CollectionWord[]> {
+  const entries = await storage.getCollectionWords(collections.map(c => c.id));
+  const visible = await storage.getWordsByIds(Array.from(new Set(entries.map(e => e.wordId))), userId);
+  const visibleIds = new Set(visible.map(word => word.id));
+  return entries.filter(e => visibleIds.has(e.wordId));
+}
+
+async function withWords(userId: string, collections: Collection[]): Promise<CollectionWithWords[]> {
+  const entries = await visibleEntries(userId, collections);
+  return collections.map(collection => ({
+    ...collection,
+    wordIds: entries.filter(e => e.collectionId === collection.id).map(e => e.wordId),
+  }));
+}
+
+/**
+ * The user's collections with the ids of their words
+ */
+export async function listCollections(userId: string): Promise<CollectionWithWords[]> {
+  return await withWords(userId, await storage.getCollections(userId));
+}
+
+/**
+ * One of the user's collections with the ids of its words, or undefined if the user
+ * has no such collection
+ */
+export async function getCollectionWithWords(userId: string, id: string): Promise<CollectionWithWords | undefined> {
+  const collection = await storage.getCollection(userId, id);
+  if (!collection) return undefined;
+  const [withIds] = await withWords(userId, [collection]);
+  return withIds;
+}
+
+/**
+ * Decks the user subscribed to, with the ids of their words as their owners keep them
+ */
+export async function listSubscribedCollections(userId: string): Promise<CollectionWithWords[]> {
+  return await withWords(userId, await storage.getSubscribedCollections(userId));
+}
+
+async function isSubscribed(userId: string, collectionId: string): Promise<boolean> {
+  return (await storage.getSubscribedCollections(userId)).some(c => c.id === collectionId);
+}
+
+/**
+ * A collection the user may read: their own, a public deck, or a deck they subscribed
+ * to before it was made private
+ */
+export async function getReadableCollection(userId: string, id: string): Promise<Collection | undefined> {
+  const collection = await storage.getCollectionById(id);
+  if (!collection) return undefined;
+  if (collection.userId === userId || collection.isPublic || await isSubscribed(userId, id)) return collection;
+  return undefined;
+}
+
+/**
+ * Words of a collection the user may read, in the order they were added, or undefined
+ * if there is no such collection. Private words of the deck's owner and words in the
+ * trash are left out.
+ */
+export async function getCollectionWordList(userId: string, id: string): Promise<Word[] | undefined> {
+  const collection = await getReadableCollection(userId, id);
+  if (!collection) return undefined;
+  const entries = await storage.getCollectionWords([collection.id]);
+  const words = new Map((await storage.getWordsByIds(entries.map(e => e.wordId), userId)).map(word => [word.id, word]));
+  return entries.flatMap(e => words.get(e.wordId) ?? []);
+}
+
+/**
+ * Whether a plan may target the collection: no collection, one of the user's, or a
+ * deck they subscribed to
+ */
+export async function canTargetCollection(userId: string, collectionId: string | null | undefined): Promise<boolean> {
+  if (!collectionId) return true;
+  return !!(await storage.getCollection(userId, collectionId)) || await isSubscribed(userId, collectionId);
+}
+
+// "alice@example.com" -> "al***", so decks and word histories don't reveal addresses
+export function maskEmail(email: string): string {
+  return `${email.split("@")[0].slice(0, 2)}***`;
+}
+
+async function toPublicDecks(userId: string, collections: Collection[]): Promise<PublicDeck[]> {
+  const ids = collections.map(c => c.id);
+  const [entries, subscriptions] = await Promise.all([
+    visibleEntries(userId, collections),
+    storage.getCollectionSubscriptions(ids),
+  ]);
+  const owners = new Map<string, string>();
+  for (const ownerId of Array.from(new Set(collections.map(c => c.userId)))) {
+    const owner = await storage.findUserById(ownerId);
+    owners.set(ownerId, owner ? maskEmail(owner.email) : "");
+  }
+  return collections.map(({ userId: ownerId, ...collection }) => {
+    const subscribers = subscriptions.filter(s => s.collectionId === collection.id);
+    return {
+      ...collection,
+      ownerName: owners.get(ownerId) ?? "",
+      wordCount: entries.filter(e => e.collectionId === collection.id).length,
+      subscriberCount: subscribers.length,
+      isOwn: ownerId === userId,
+      isSubscribed: subscribers.some(s => s.userId === userId),
+    };
+  });
+}
+
+/**
+ * Public decks for browsing, newest first
+ */
+export async function listPublicDecks(userId: string, search?: string): Promise<PublicDeck[]> {
+  return await toPublicDecks(userId, await storage.getPublicCollections(search));
+}
+
+/**
+ * A deck the user may read with its words and the user's progress on them, or
+ * undefined if there is no such deck
+ */
+export async function getPublicDeck(userId: string, id: string): Promise<PublicDeckDetail | undefined> {
+  const collection = await getReadableCollection(userId, id);
+  if (!collection) return undefined;
+  const [[deck], words] = await Promise.all([
+    toPublicDecks(userId, [collection]),
+    getCollectionWordList(userId, id),
+  ]);
+  const progress = new Map((await storage.getAllUserProgress(userId))
+    .filter(p => p.template === "recognition")
+    .map(p => [p.wordId, p]));
+  const withSenses = await attachSenses(words ?? []);
+  return { ...deck, words: withSenses.map(word => ({ ...word, progress: progress.get(word.id) })) };
+}
+
+/**
+ * Subscribe the user to a public deck of someone else. Returns false if there is no
+ * such deck.
+ */
+export async function subscribeToDeck(userId: string, id: string): Promise<boolean> {
+  const collection = await storage.getCollectionById(id);
+  if (!collection || !collection.isPublic || collection.userId === userId) return false;
+  await storage.subscribeToCollection(userId, id);
+  return true;
+}
+
+/**
+ * Copy a deck the user may read into a collection of their own. The copy lists the
+ * same words, so progress on them carries over, but later changes to either list
+ * stay with it. Returns undefined if there is no such deck.
+ */
+export async function forkDeck(userId: string, id: string, name?: string): Promise<CollectionWithWords | undefined> {
+  const deck = await getReadableCollection(userId, id);
+  if (!deck) return undefined;
+  const [source] = await withWords(userId, [deck]);
+  const fork = await storage.createCollection({
+    userId,
+    name: name ?? deck.name,
+    description: deck.description,
+    forkedFromId: deck.id,
+  });
+  for (const wordId of source.wordIds) {
+    await storage.addWordToCollection(fork.id, wordId);
+  }
+  return { ...fork, wordIds: source.wordIds };
+}
+
+/**
+ * Unsubscribe the user from a deck. Their plans studying it go back to their category.
+ */
+export async function unsubscribeFromDeck(userId: string, id: string): Promise<void> {
+  await storage.unsubscribeFromCollection(userId, id);
+  for (const plan of await storage.getAllUserPlans(userId)) {
+    if (plan.targetCollectionId === id) {
+      await storage.updateStudyPlan(userId, plan.id, { targetCollectionId: null });
+    }
+  }
+}
@@ -1,11 +1,20 @@
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+import { drizzle, type NeonQueryResultHKT } from 'drizzle-orm/neon-serverless';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import type { PgDatabase } from 'drizzle-orm/pg-core';
+import ws from 'ws';
 import * as schema from '../shared/schema.js';
 
 if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL environment variable is not set');
 }
 
-const sql = neon(process.env.DATABASE_URL);
+// The pooled driver talks to Neon over WebSockets, which unlike the HTTP driver
+// supports interactive transactions
+neonConfig.webSocketConstructor = ws;
 
-export const db = drizzle(sql, { schema });
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+
+export const db = drizzle(pool, { schema });
+
+// The database or a transaction on it; both run the same queries
+export type Database = PgDatabase<NeonQueryResultHKT, typeof schema>;
@@ -1,170 +1,542 @@
-import { db } from "./db.js";
-import { users, words, userProgress, studySessions, practiceResults, studyPlans } from "../shared/schema.js";
-import type { User, Word, UserProgress, StudySession, PracticeResult, StudyPlan, InsertUser, InsertWord, InsertUserProgress, InsertStudySession, InsertPracticeResult, InsertStudyPlan, WordWithProgress, DashboardStats } from "../shared/schema.js";
-import type { IStorage } from "./storage.js";
-import { eq, and, lte, gte, desc, sql, count, countDistinct, sum, isNull, not, or, inArray } from "drizzle-orm";
+import { db as defaultDb, type Database } from "./db.js";
+import { users, words, wordSenses, wordExamples, wordRevisions, collections, collectionWords, collectionSubscriptions, userProgress, studySessions, practiceResults, studyPlans, reviewLogs, reviewSnapshots, schedulerParams } from "../shared/schema.js";
+import type { User, Word, UserProgress, StudySession, PracticeResult, StudyPlan, InsertUser, InsertWord, InsertUserProgress, InsertStudySession, InsertPracticeResult, InsertStudyPlan, ReviewLog, InsertReviewLog, SchedulerParams, InsertSchedulerParams, ReviewSnapshot, InsertReviewSnapshot, WordWithProgress, DashboardStats, NewWordOrder, CardTemplate, WordSense, WordSenseInput, WordExample, WordExampleInput, Collection, CollectionWord, InsertCollection, CollectionSubscription, WordRevision, InsertWordRevision } from "../shared/schema.js";
+import { calculateStreakDays, type IStorage, type TransactionOptions } from "./storage.js";
+import { eq, and, lt, lte, gte, gt, asc, desc, sql, count, countDistinct, sum, isNull, isNotNull, not, ne, or, inArray, notInArray, ilike, exists, notExists, type AnyColumn } from "drizzle-orm";
+
+// ILIKE pattern matching the text anywhere, with its wildcards taken literally like MemStorage's includes
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+}
 
 export class DrizzleStorage implements IStorage {
+  constructor(private readonly db: Database = defaultDb) {}
+
+  async transaction<T>(work: (storage: IStorage) => Promise<T>, options?: TransactionOptions): Promise<T> {
+    return await this.db.transaction(tx => work(new DrizzleStorage(tx)), options);
+  }
 
   // ===== USER MANAGEMENT =====
   async findUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email));
+    const result = await this.db.select().from(users).where(eq(users.email, email));
     return result[0];
   }
 
   async findUserById(id: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.id, id));
+    const result = await this.db.select().from(users).where(eq(users.id, id));
     return result[0];
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await this.db.select().from(users);
+  }
+
+  async countUsers(): Promise<number> {
+    const result = await this.db.select({ count: count() }).from(users);
+    return result[0].count;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(user).returning();
+    const result = await this.db.insert(users).values(user).returning();
+    return result[0];
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const result = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
     return result[0];
   }
 
   // ===== WORD MANAGEMENT =====
-  async getAllWords(): Promise<Word[]> {
-    return await db.select().from(words);
+  // Shared catalog words, plus the user's private words if a user is given
+  private visibleTo(userId?: string) {
+    const owned = userId ? or(isNull(words.ownerId), eq(words.ownerId, userId)) : isNull(words.ownerId);
+    return and(owned, isNull(words.deletedAt));
+  }
+
+  // For progress rows: leaves out the progress on words in the trash
+  private onLiveWord() {
+    return notInArray(userProgress.wordId, this.db.select({ id: words.id }).from(words).where(isNotNull(words.deletedAt)));
+  }
+
+  async getAllWords(userId?: string): Promise<Word[]> {
+    return await this.db.select().from(words).where(this.visibleTo(userId));
   }
 
-  async getWordsByCategory(category: string): Promise<Word[]> {
-    return await db.select().from(words).where(eq(words.category, category));
+  async getWordsByCategory(category: string, userId?: string): Promise<Word[]> {
+    return await this.db.select().from(words).where(and(eq(words.category, category), this.visibleTo(userId)));
   }
 
   async getWord(id: string): Promise<Word | undefined> {
-    const result = await db.select().from(words).where(eq(words.id, id));
+    const result = await this.db.select().from(words).where(and(eq(words.id, id), isNull(words.deletedAt)));
     return result[0];
   }
 
-  async searchWords(query: string): Promise<Word[]> {
-    return await db.select().from(words).where(sql`word ILIKE ${`%${query}%`}`);
+  async getWordsByIds(ids: string[], userId?: string): Promise<Word[]> {
+    if (ids.length === 0) return [];
+    return await this.db.select().from(words).where(and(inArray(words.id, ids), this.visibleTo(userId)));
   }
 
-  async findWordByText(word: string): Promise<Word | undefined> {
-    const result = await db.select().from(words).where(eq(words.word, word));
+  async searchWords(query: string, userId?: string): Promise<Word[]> {
+    return await this.db.select().from(words).where(and(sql`word ILIKE ${containsPattern(query)}`, this.visibleTo(userId)));
+  }
+
+  async findWordByText(word: string, userId?: string): Promise<Word | undefined> {
+    const result = await this.db.select().from(words).where(and(eq(words.word, word), this.visibleTo(userId)));
     return result[0];
   }
 
   async createWord(word: InsertWord): Promise<Word> {
-    const result = await db.insert(words).values(word).returning();
+    const result = await this.db.insert(words).values(word).returning();
     return result[0];
   }
 
-  async updateWord(id: string, word: Partial<InsertWord>): Promise<Word> {
-    const result = await db.update(words).set(word).where(eq(words.id, id)).returning();
+  async updateWord(id: string, word: Partial<InsertWord>): Promise<Word | undefined> {
+    const result = await this.db.update(words).set(word).where(eq(words.id, id)).returning();
     return result[0];
   }
 
   async deleteWord(id: string): Promise<void> {
+    await this.db.update(words).set({ deletedAt: new Date() }).where(and(eq(words.id, id), isNull(words.deletedAt)));
+  }
+
+  async getDeletedWords(userId: string): Promise<Word[]> {
+    return await this.db.select().from(words)
+      .where(and(isNotNull(words.deletedAt), or(isNull(words.ownerId), eq(words.ownerId, userId))))
+      .orderBy(desc(words.deletedAt));
+  }
+
+  async restoreWord(id: string): Promise<Word | undefined> {
+    const result = await this.db.update(words).set({ deletedAt: null }).where(and(eq(words.id, id), isNotNull(words.deletedAt))).returning();
+    return result[0];
+  }
+
+  async purgeDeletedWords(before: Date): Promise<number> {
+    const expired = await this.db.select({ id: words.id }).from(words).where(lt(words.deletedAt, before));
+    for (const { id } of expired) {
+      await this.purgeWord(id);
+    }
+    return expired.length;
+  }
+
+  async purgeWord(id: string): Promise<void> {
     // First, delete any user progress associated with this word
-    await db.delete(userProgress).where(eq(userProgress.wordId, id));
+    await this.db.delete(userProgress).where(eq(userProgress.wordId, id));
     // Then, delete the word itself
-    await db.delete(words).where(eq(words.id, id));
+    await this.db.delete(words).where(eq(words.id, id));
+  }
+
+  async getWordSenses(wordIds: string[]): Promise<WordSense[]> {
+    if (wordIds.length === 0) return [];
+    return await this.db.select().from(wordSenses).where(inArray(wordSenses.wordId, wordIds)).orderBy(asc(wordSenses.wordId), asc(wordSenses.position));
+  }
+
+  async saveWordSenses(wordId: string, senses: WordSenseInput[]): Promise<WordSense[]> {
+    return await this.db.transaction(async tx => {
+      const keptIds = senses.flatMap(sense => sense.id ? [sense.id] : []);
+      await tx.delete(wordSenses).where(and(eq(wordSenses.wordId, wordId), keptIds.length > 0 ? notInArray(wordSenses.id, keptIds) : undefined));
+
+      const saved: WordSense[] = [];
+      for (const [position, { id, examples, ...sense }] of senses.entries()) {
+        const values = { ...sense, englishDefinition: sense.englishDefinition ?? null, wordId, position };
+        const updated = id ? await tx.update(wordSenses).set(values).where(and(eq(wordSenses.id, id), eq(wordSenses.wordId, wordId))).returning() : [];
+        saved.push(updated[0] ?? (await tx.insert(wordSenses).values(values).returning())[0]);
+      }
+      return saved;
+    });
+  }
+
+  async getWordExamples(wordIds: string[]): Promise<WordExample[]> {
+    if (wordIds.length === 0) return [];
+    return await this.db.select().from(wordExamples).where(inArray(wordExamples.wordId, wordIds)).orderBy(asc(wordExamples.senseId), asc(wordExamples.position));
+  }
+
+  async saveSenseExamples(wordId: string, senseId: string, examples: WordExampleInput[]): Promise<WordExample[]> {
+    return await this.db.transaction(async tx => {
+      const keptIds = examples.flatMap(example => example.id ? [example.id] : []);
+      await tx.delete(wordExamples).where(and(eq(wordExamples.senseId, senseId), keptIds.length > 0 ? notInArray(wordExamples.id, keptIds) : undefined));
+
+      const saved: WordExample[] = [];
+      for (const [position, { id, ...example }] of examples.entries()) {
+        const values = { ...example, source: example.source ?? null, difficulty: example.difficulty ?? 1, wordId, senseId, position };
+        const updated = id ? await tx.update(wordExamples).set(values).where(and(eq(wordExamples.id, id), eq(wordExamples.senseId, senseId))).returning() : [];
+        saved.push(updated[0] ?? (await tx.insert(wordExamples).values(values).returning())[0]);
+      }
+      return saved;
+    });
+  }
+
+  async getWordRevisions(wordId: string): Promise<WordRevision[]> {
+    return await this.db.select().from(wordRevisions).where(eq(wordRevisions.wordId, wordId)).orderBy(desc(wordRevisions.createdAt));
+  }
+
+  async getWordRevision(id: string): Promise<WordRevision | undefined> {
+    const result = await this.db.select().from(wordRevisions).where(eq(wordRevisions.id, id));
+    return result[0];
+  }
+
+  async getPendingWordRevisions(): Promise<WordRevision[]> {
+    return await this.db.select().from(wordRevisions).where(eq(wordRevisions.status, "pending")).orderBy(asc(wordRevisions.createdAt));
+  }
+
+  async createWordRevision(revision: InsertWordRevision): Promise<WordRevision> {
+    const result = await this.db.insert(wordRevisions).values(revision).returning();
+    return result[0];
+  }
+
+  async updateWordRevision(id: string, updates: Partial<InsertWordRevision>): Promise<WordRevision | undefined> {
+    const result = await this.db.update(wordRevisions).set(updates).where(eq(wordRevisions.id, id)).returning();
+    return result[0];
   }
   
   // ===== USER PROGRESS =====
-  async getUserProgress(userId: string, wordId: string): Promise<UserProgress | undefined> {
-    const result = await db.select().from(userProgress).where(and(eq(userProgress.userId, userId), eq(userProgress.wordId, wordId)));
+  async getUserProgress(userId: string, wordId: string, template: CardTemplate = "recognition"): Promise<UserProgress | undefined> {
+    const result = await this.db.select().from(userProgress).where(and(eq(userProgress.userId, userId), eq(userProgress.wordId, wordId), eq(userProgress.template, template)));
     return result[0];
   }
 
-  async updateUserProgress(userId: string, wordId: string, progress: Partial<InsertUserProgress>): Promise<UserProgress> {
-    const existing = await this.getUserProgress(userId, wordId);
+  async getWordProgress(userId: string, wordId: string): Promise<UserProgress[]> {
+    return await this.db.select().from(userProgress).where(and(eq(userProgress.userId, userId), eq(userProgress.wordId, wordId)));
+  }
+
+  async updateUserProgress(userId: string, wordId: string, progress: Partial<InsertUserProgress>, template: CardTemplate = "recognition"): Promise<UserProgress> {
+    const existing = await this.getUserProgress(userId, wordId, template);
     if (existing) {
-      const result = await db.update(userProgress).set(progress).where(eq(userProgress.id, existing.id)).returning();
+      const result = await this.db.update(userProgress).set(progress).where(eq(userProgress.id, existing.id)).returning();
       return result[0];
     } else {
-      const result = await db.insert(userProgress).values({ userId, wordId, ...progress }).returning();
+      const result = await this.db.insert(userProgress).values({ userId, wordId, template, ...progress }).returning();
       return result[0];
     }
   }
 
+  // Suspended and buried words are left out of scheduling
+  private isSchedulable(now: Date) {
+    return and(eq(userProgress.isSuspended, false), or(isNull(userProgress.buriedUntil), lte(userProgress.buriedUntil, now)));
+  }
+
+  async getAllUserProgress(userId: string): Promise<UserProgress[]> {
+    return await this.db.select().from(userProgress).where(eq(userProgress.userId, userId));
+  }
+
   async getWordsForReview(userId: string): Promise<WordWithProgress[]> {
     const now = new Date();
-    const results = await db.select().from(userProgress)
-      .where(and(eq(userProgress.userId, userId), lte(userProgress.nextReview, now)))
+    const results = await this.db.select().from(userProgress)
+      .where(and(eq(userProgress.userId, userId), lte(userProgress.nextReview, now), this.isSchedulable(now), this.onLiveWord()))
       .leftJoin(words, eq(userProgress.wordId, words.id));
     
     return results.map(r => ({ ...r.words!, progress: r.user_progress }));
   }
 
   async getWordsByMasteryLevel(userId: string, minLevel: number, maxLevel: number): Promise<WordWithProgress[]> {
-    const results = await db.select().from(userProgress)
-      .where(and(eq(userProgress.userId, userId), gte(userProgress.masteryLevel, minLevel), lte(userProgress.masteryLevel, maxLevel)))
+    const results = await this.db.select().from(userProgress)
+      .where(and(eq(userProgress.userId, userId), gte(userProgress.masteryLevel, minLevel), lte(userProgress.masteryLevel, maxLevel), this.onLiveWord()))
       .leftJoin(words, eq(userProgress.wordId, words.id));
 
     return results.map(r => ({ ...r.words!, progress: r.user_progress }));
   }
 
-  async getNewWordsForPlan(userId: string, category: string, limit: number): Promise<Word[]> {
-    const newWords = await db.select().from(words).where(eq(words.category, category)).limit(limit);
-    return newWords;
+  async getNewWordsForPlan(userId: string, target: Pick<StudyPlan, "targetCategory" | "targetCollectionId">, templates: CardTemplate[], limit: number, order: NewWordOrder, seed: number): Promise<Word[]> {
+    const orderBy = {
+      frequency: [desc(words.frequency)],
+      difficulty: [asc(words.difficulty)],
+      alphabetical: [],
+      random: [sql`md5(${words.id} || ${seed})`],
+    }[order];
+    const now = new Date();
+    // Words get a cloze card only if one of their examples contains the word, as in
+    // hasClozeExample: the stored examples, or the example column of words without senses
+    const containsWord = (text: AnyColumn) => sql`strpos(lower(${text}), lower(${words.word})) > 0`;
+    const hasCloze = or(
+      exists(this.db.select({ id: wordExamples.id }).from(wordExamples).where(and(eq(wordExamples.wordId, words.id), containsWord(wordExamples.english)))),
+      and(notExists(this.db.select({ id: wordSenses.id }).from(wordSenses).where(eq(wordSenses.wordId, words.id))), containsWord(words.englishExample)),
+    );
+    const clozeMissing = templates.includes("cloze") ? sql<number>`(case when ${hasCloze} then 0 else 1 end)` : sql<number>`0`;
+    // Templates of the word that were started, or suspended or buried before being started.
+    // A progress row alone (e.g. a starred word) does not make a template started.
+    const unavailable = this.db.select({ count: count() }).from(userProgress)
+      .where(and(
+        eq(userProgress.wordId, words.id),
+        eq(userProgress.userId, userId),
+        inArray(userProgress.template, templates),
+        or(ne(userProgress.template, "cloze"), hasCloze),
+        or(isNotNull(userProgress.lastStudied), eq(userProgress.isSuspended, true), gt(userProgress.buriedUntil, now)),
+      ));
+    const inTarget = target.targetCollectionId
+      ? inArray(words.id, this.db.select({ wordId: collectionWords.wordId }).from(collectionWords).where(eq(collectionWords.collectionId, target.targetCollectionId)))
+      : eq(words.category, target.targetCategory);
+    return await this.db.select().from(words)
+      .where(and(inTarget, this.visibleTo(userId), sql`(${unavailable}) < ${templates.length} - ${clozeMissing}`))
+      .orderBy(...orderBy, asc(words.word))
+      .limit(limit);
+  }
+
+  async getDueCountsByDay(userId: string, from: Date, timezoneOffset = 0): Promise<Record<string, number>> {
+    const day = sql<string>`TO_CHAR(${userProgress.nextReview} - make_interval(mins => ${timezoneOffset}), 'YYYY-MM-DD')`;
+    const results = await this.db.select({ day, count: count() }).from(userProgress)
+      .where(and(eq(userProgress.userId, userId), gte(userProgress.nextReview, from), this.onLiveWord()))
+      .groupBy(day);
+    return Object.fromEntries(results.map(r => [r.day, r.count]));
+  }
+
+  // ===== REVIEW LOGS =====
+  async createReviewLog(log: InsertReviewLog): Promise<ReviewLog> {
+    const result = await this.db.insert(reviewLogs).values(log).returning();
+    return result[0];
+  }
+
+  async getReviewLogs(userId: string, wordId?: string): Promise<ReviewLog[]> {
+    const conditions = and(eq(reviewLogs.userId, userId), isNull(reviewLogs.undoneAt), wordId ? eq(reviewLogs.wordId, wordId) : undefined);
+    return await this.db.select().from(reviewLogs).where(conditions).orderBy(desc(reviewLogs.reviewedAt));
+  }
+
+  async getReviewLogsSince(userId: string, since: Date): Promise<ReviewLog[]> {
+    return await this.db.select().from(reviewLogs).where(and(eq(reviewLogs.userId, userId), isNull(reviewLogs.undoneAt), gte(reviewLogs.reviewedAt, since))).orderBy(desc(reviewLogs.reviewedAt));
+  }
+
+  async getWordsReviewedBefore(userId: string, wordIds: string[], before: Date): Promise<string[]> {
+    if (wordIds.length === 0) return [];
+    const rows = await this.db.selectDistinct({ wordId: reviewLogs.wordId }).from(reviewLogs)
+      .where(and(eq(reviewLogs.userId, userId), isNull(reviewLogs.undoneAt), inArray(reviewLogs.wordId, wordIds), lt(reviewLogs.reviewedAt, before)));
+    return rows.map(row => row.wordId);
+  }
+
+  async markReviewLogUndone(id: string): Promise<void> {
+    await this.db.update(reviewLogs).set({ undoneAt: new Date() }).where(eq(reviewLogs.id, id));
+    await this.db.delete(practiceResults).where(eq(practiceResults.reviewLogId, id));
+  }
+
+  // ===== REVIEW SNAPSHOTS =====
+  async createReviewSnapshot(snapshot: InsertReviewSnapshot): Promise<ReviewSnapshot> {
+    const result = await this.db.insert(reviewSnapshots).values(snapshot).returning();
+    return result[0];
+  }
+
+  async getLatestReviewSnapshot(userId: string): Promise<ReviewSnapshot | undefined> {
+    const result = await this.db.select().from(reviewSnapshots).where(eq(reviewSnapshots.userId, userId)).orderBy(desc(reviewSnapshots.createdAt)).limit(1);
+    return result[0];
+  }
+
+  async deleteReviewSnapshot(id: string): Promise<void> {
+    await this.db.delete(reviewSnapshots).where(eq(reviewSnapshots.id, id));
+  }
+
+  async pruneReviewSnapshots(userId: string, keep: number): Promise<void> {
+    const kept = this.db.select({ id: reviewSnapshots.id }).from(reviewSnapshots).where(eq(reviewSnapshots.userId, userId)).orderBy(desc(reviewSnapshots.createdAt)).limit(keep);
+    await this.db.delete(reviewSnapshots).where(and(eq(reviewSnapshots.userId, userId), not(inArray(reviewSnapshots.id, kept))));
+  }
+
+  // ===== SCHEDULER PARAMETERS =====
+  async getSchedulerParams(userId: string): Promise<SchedulerParams | undefined> {
+    const result = await this.db.select().from(schedulerParams).where(eq(schedulerParams.userId, userId));
+    return result[0];
+  }
+
+  async saveSchedulerParams(params: InsertSchedulerParams): Promise<SchedulerParams> {
+    const values = { ...params, fittedAt: new Date() };
+    const result = await this.db.insert(schedulerParams).values(values)
+      .onConflictDoUpdate({ target: schedulerParams.userId, set: values })
+      .returning();
+    return result[0];
   }
   
   // ===== STUDY SESSIONS =====
   async createStudySession(session: InsertStudySession & { userId: string }): Promise<StudySession> {
-    const result = await db.insert(studySessions).values(session).returning();
+    const result = await this.db.insert(studySessions).values(session).returning();
     return result[0];
   }
 
   async getStudySession(userId: string, sessionId: string): Promise<StudySession | undefined> {
-    const results = await db.select().from(studySessions).where(and(eq(studySessions.id, sessionId), eq(studySessions.userId, userId)));
+    const results = await this.db.select().from(studySessions).where(and(eq(studySessions.id, sessionId), eq(studySessions.userId, userId)));
     return results[0];
   }
 
-  async updateStudySession(sessionId: string, updates: Partial<StudySession>): Promise<StudySession> {
-    const result = await db.update(studySessions).set(updates).where(eq(studySessions.id, sessionId)).returning();
+  async updateStudySession(sessionId: string, updates: Partial<StudySession>): Promise<StudySession | undefined> {
+    const result = await this.db.update(studySessions).set({ ...updates, updatedAt: new Date() }).where(eq(studySessions.id, sessionId)).returning();
     return result[0];
   }
 
   async getRecentStudySessions(userId: string, limit: number): Promise<StudySession[]> {
-    return await db.select().from(studySessions).where(eq(studySessions.userId, userId)).orderBy(desc(studySessions.createdAt)).limit(limit);
+    return await this.db.select().from(studySessions).where(eq(studySessions.userId, userId)).orderBy(desc(studySessions.createdAt)).limit(limit);
+  }
+
+  async getActiveStudySession(userId: string, sessionTypes: string[], since: Date): Promise<StudySession | undefined> {
+    const result = await this.db.select().from(studySessions)
+      .where(and(eq(studySessions.userId, userId), inArray(studySessions.sessionType, sessionTypes), eq(studySessions.status, "active"), gte(studySessions.updatedAt, since)))
+      .orderBy(desc(studySessions.updatedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async getStudySessions(userId: string, filter: { sessionType?: string; from?: Date; to?: Date }, limit: number, offset: number): Promise<{ sessions: StudySession[]; total: number }> {
+    const where = and(
+      eq(studySessions.userId, userId),
+      filter.sessionType ? eq(studySessions.sessionType, filter.sessionType) : undefined,
+      filter.from ? gte(studySessions.createdAt, filter.from) : undefined,
+      filter.to ? lt(studySessions.createdAt, filter.to) : undefined,
+    );
+    const [sessions, [{ total }]] = await Promise.all([
+      this.db.select().from(studySessions).where(where).orderBy(desc(studySessions.createdAt)).limit(limit).offset(offset),
+      this.db.select({ total: count() }).from(studySessions).where(where),
+    ]);
+    return { sessions, total };
   }
   
   // ===== PRACTICE RESULTS =====
   async savePracticeResult(result: InsertPracticeResult): Promise<PracticeResult> {
-    const res = await db.insert(practiceResults).values(result).returning();
+    const res = await this.db.insert(practiceResults).values(result).returning();
     return res[0];
   }
 
   async getPracticeHistory(userId: string, wordId: string): Promise<PracticeResult[]> {
-    return await db.select().from(practiceResults).where(and(eq(practiceResults.userId, userId), eq(practiceResults.wordId, wordId))).orderBy(desc(practiceResults.id));
+    return await this.db.select().from(practiceResults).where(and(eq(practiceResults.userId, userId), eq(practiceResults.wordId, wordId))).orderBy(desc(practiceResults.id));
+  }
+
+  async getUserPracticeResults(userId: string): Promise<PracticeResult[]> {
+    return await this.db.select().from(practiceResults).where(eq(practiceResults.userId, userId));
+  }
+
+  async getSessionPracticeResults(userId: string, sessionId: string): Promise<PracticeResult[]> {
+    return await this.db.select().from(practiceResults)
+      .where(and(eq(practiceResults.userId, userId), eq(practiceResults.sessionId, sessionId)))
+      .orderBy(asc(practiceResults.createdAt));
   }
   
   // ===== STUDY PLANS =====
   private async deactivateAllPlans(userId: string) {
-    await db.update(studyPlans).set({ isActive: false }).where(eq(studyPlans.userId, userId));
+    await this.db.update(studyPlans).set({ isActive: false }).where(eq(studyPlans.userId, userId));
   }
 
   async createStudyPlan(plan: InsertStudyPlan): Promise<StudyPlan> {
     await this.deactivateAllPlans(plan.userId);
-    const result = await db.insert(studyPlans).values({ ...plan, isActive: true }).returning();
+    const result = await this.db.insert(studyPlans).values({ ...plan, isActive: true }).returning();
     return result[0];
   }
 
+  private livePlan(userId: string, id: string) {
+    return and(eq(studyPlans.userId, userId), eq(studyPlans.id, id), isNull(studyPlans.deletedAt));
+  }
+
   async getAllUserPlans(userId: string): Promise<StudyPlan[]> {
-    return await db.select().from(studyPlans).where(eq(studyPlans.userId, userId)).orderBy(desc(studyPlans.createdAt));
+    return await this.db.select().from(studyPlans).where(and(eq(studyPlans.userId, userId), isNull(studyPlans.deletedAt))).orderBy(desc(studyPlans.createdAt));
   }
 
   async getActiveStudyPlan(userId: string): Promise<StudyPlan | undefined> {
-    const result = await db.select().from(studyPlans).where(and(eq(studyPlans.userId, userId), eq(studyPlans.isActive, true)));
+    const result = await this.db.select().from(studyPlans).where(and(eq(studyPlans.userId, userId), eq(studyPlans.isActive, true), isNull(studyPlans.deletedAt)));
     return result[0];
   }
 
-  async updateStudyPlan(userId: string, id: string, updates: Partial<InsertStudyPlan>): Promise<StudyPlan> {
-    const result = await db.update(studyPlans).set(updates).where(and(eq(studyPlans.userId, userId), eq(studyPlans.id, id))).returning();
+  async updateStudyPlan(userId: string, id: string, updates: Partial<InsertStudyPlan>): Promise<StudyPlan | undefined> {
+    const result = await this.db.update(studyPlans).set(updates).where(this.livePlan(userId, id)).returning();
     return result[0];
   }
 
   async deleteStudyPlan(userId: string, id: string): Promise<void> {
-    await db.delete(studyPlans).where(and(eq(studyPlans.userId, userId), eq(studyPlans.id, id)));
+    await this.db.update(studyPlans).set({ deletedAt: new Date(), isActive: false }).where(this.livePlan(userId, id));
+  }
+
+  async activateStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined> {
+    // The other plans are only deactivated once the target is known to be live
+    return await this.db.transaction(async tx => {
+      const result = await tx.update(studyPlans).set({ isActive: true }).where(this.livePlan(userId, id)).returning();
+      if (result.length === 0) return undefined;
+      await tx.update(studyPlans).set({ isActive: false }).where(and(eq(studyPlans.userId, userId), ne(studyPlans.id, id)));
+      return result[0];
+    });
   }
 
-  async activateStudyPlan(userId: string, id: string): Promise<StudyPlan> {
-    await this.deactivateAllPlans(userId);
-    const result = await db.update(studyPlans).set({ isActive: true }).where(and(eq(studyPlans.userId, userId), eq(studyPlans.id, id))).returning();
+  async getDeletedStudyPlans(userId: string): Promise<StudyPlan[]> {
+    return await this.db.select().from(studyPlans).where(and(eq(studyPlans.userId, userId), isNotNull(studyPlans.deletedAt))).orderBy(desc(studyPlans.deletedAt));
+  }
+
+  async restoreStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined> {
+    const result = await this.db.update(studyPlans).set({ deletedAt: null })
+      .where(and(eq(studyPlans.userId, userId), eq(studyPlans.id, id), isNotNull(studyPlans.deletedAt)))
+      .returning();
     return result[0];
   }
+
+  async purgeStudyPlan(userId: string, id: string): Promise<void> {
+    await this.db.delete(studyPlans).where(and(eq(studyPlans.userId, userId), eq(studyPlans.id, id)));
+  }
+
+  async purgeDeletedStudyPlans(before: Date): Promise<number> {
+    const result = await this.db.delete(studyPlans).where(lt(studyPlans.deletedAt, before)).returning({ id: studyPlans.id });
+    return result.length;
+  }
+
+  // ===== COLLECTIONS =====
+  async getCollections(userId: string): Promise<Collection[]> {
+    return await this.db.select().from(collections).where(eq(collections.userId, userId)).orderBy(asc(collections.createdAt));
+  }
+
+  async getCollection(userId: string, id: string): Promise<Collection | undefined> {
+    const result = await this.db.select().from(collections).where(and(eq(collections.userId, userId), eq(collections.id, id)));
+    return result[0];
+  }
+
+  async createCollection(collection: InsertCollection): Promise<Collection> {
+    const result = await this.db.insert(collections).values(collection).returning();
+    return result[0];
+  }
+
+  async updateCollection(userId: string, id: string, updates: Partial<InsertCollection>): Promise<Collection | undefined> {
+    const result = await this.db.update(collections).set({ ...updates, userId }).where(and(eq(collections.userId, userId), eq(collections.id, id))).returning();
+    return result[0];
+  }
+
+  async deleteCollection(userId: string, id: string): Promise<void> {
+    await this.db.delete(collections).where(and(eq(collections.userId, userId), eq(collections.id, id)));
+  }
+
+  async getCollectionWords(collectionIds: string[]): Promise<CollectionWord[]> {
+    if (collectionIds.length === 0) return [];
+    return await this.db.select().from(collectionWords).where(inArray(collectionWords.collectionId, collectionIds)).orderBy(asc(collectionWords.addedAt));
+  }
+
+  async addWordToCollection(collectionId: string, wordId: string): Promise<void> {
+    const existing = await this.db.select().from(collectionWords).where(and(eq(collectionWords.collectionId, collectionId), eq(collectionWords.wordId, wordId)));
+    if (existing.length === 0) {
+      await this.db.insert(collectionWords).values({ collectionId, wordId });
+    }
+  }
+
+  async removeWordFromCollection(collectionId: string, wordId: string): Promise<void> {
+    await this.db.delete(collectionWords).where(and(eq(collectionWords.collectionId, collectionId), eq(collectionWords.wordId, wordId)));
+  }
+
+  async getCollectionById(id: string): Promise<Collection | undefined> {
+    const result = await this.db.select().from(collections).where(eq(collections.id, id));
+    return result[0];
+  }
+
+  async getPublicCollections(search?: string): Promise<Collection[]> {
+    const matchesSearch = search ? or(ilike(collections.name, containsPattern(search)), ilike(collections.description, containsPattern(search))) : undefined;
+    return await this.db.select().from(collections).where(and(eq(collections.isPublic, true), matchesSearch)).orderBy(desc(collections.createdAt));
+  }
+
+  async getSubscribedCollections(userId: string): Promise<Collection[]> {
+    const results = await this.db.select().from(collectionSubscriptions)
+      .innerJoin(collections, eq(collectionSubscriptions.collectionId, collections.id))
+      .where(eq(collectionSubscriptions.userId, userId))
+      .orderBy(asc(collectionSubscriptions.createdAt));
+    return results.map(r => r.collections);
+  }
+
+  async getCollectionSubscriptions(collectionIds: string[]): Promise<CollectionSubscription[]> {
+    if (collectionIds.length === 0) return [];
+    return await this.db.select().from(collectionSubscriptions).where(inArray(collectionSubscriptions.collectionId, collectionIds));
+  }
+
+  async subscribeToCollection(userId: string, collectionId: string): Promise<void> {
+    const existing = await this.db.select().from(collectionSubscriptions).where(and(eq(collectionSubscriptions.userId, userId), eq(collectionSubscriptions.collectionId, collectionId)));
+    if (existing.length === 0) {
+      await this.db.insert(collectionSubscriptions).values({ userId, collectionId });
+    }
+  }
+
+  async unsubscribeFromCollection(userId: string, collectionId: string): Promise<void> {
+    await this.db.delete(collectionSubscriptions).where(and(eq(collectionSubscriptions.userId, userId), eq(collectionSubscriptions.collectionId, collectionId)));
+  }
   
   // ===== DASHBOARD =====
   async getDashboardStats(userId: string): Promise<DashboardStats> {
@@ -176,17 +548,18 @@ export class DrizzleStorage implements IStorage {
     sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
 
     const activePlan = await this.getActiveStudyPlan(userId);
+    const schedulable = and(this.isSchedulable(new Date()), this.onLiveWord());
 
     // Queries
-    const totalWordsLearnedQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.timesStudied, 1)));
-    const todayStudyTimeQuery = db.select({ total: sum(studySessions.timeSpent) }).from(studySessions).where(and(eq(studySessions.userId, userId), gte(studySessions.createdAt, today)));
-    const masteryRateQuery = db.select({ totalStudied: sum(userProgress.timesStudied), totalCorrect: sum(userProgress.timesCorrect) }).from(userProgress).where(eq(userProgress.userId, userId));
-    const todayNewWordsQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.lastStudied, today), eq(userProgress.timesStudied, 1)));
-    const todayReviewedWordsQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.lastStudied, today), gte(userProgress.timesStudied, 2)));
-    const urgentReviewQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), or(lte(userProgress.nextReview, today), isNull(userProgress.nextReview))));
-    const regularReviewQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.nextReview, tomorrow), lte(userProgress.nextReview, sevenDaysFromNow)));
-    const consolidationReviewQuery = db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.nextReview, sevenDaysFromNow)));
-    const sessionDatesQuery = db.selectDistinct({ date: sql<string>`DATE(${studySessions.createdAt})` }).from(studySessions).where(eq(studySessions.userId, userId)).orderBy(desc(sql<string>`DATE(${studySessions.createdAt})`));
+    const totalWordsLearnedQuery = this.db.select({ count: countDistinct(userProgress.wordId) }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.timesStudied, 1)));
+    const todayStudyTimeQuery = this.db.select({ total: sum(studySessions.timeSpent) }).from(studySessions).where(and(eq(studySessions.userId, userId), gte(studySessions.createdAt, today)));
+    const masteryRateQuery = this.db.select({ totalStudied: sum(userProgress.timesStudied), totalCorrect: sum(userProgress.timesCorrect) }).from(userProgress).where(eq(userProgress.userId, userId));
+    const todayNewWordsQuery = this.db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.lastStudied, today), eq(userProgress.timesStudied, 1)));
+    const todayReviewedWordsQuery = this.db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), gte(userProgress.lastStudied, today), gte(userProgress.timesStudied, 2)));
+    const urgentReviewQuery = this.db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), schedulable, or(lte(userProgress.nextReview, today), isNull(userProgress.nextReview))));
+    const regularReviewQuery = this.db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), schedulable, gte(userProgress.nextReview, tomorrow), lte(userProgress.nextReview, sevenDaysFromNow)));
+    const consolidationReviewQuery = this.db.select({ count: count() }).from(userProgress).where(and(eq(userProgress.userId, userId), schedulable, gte(userProgress.nextReview, sevenDaysFromNow)));
+    const sessionDatesQuery = this.db.selectDistinct({ date: sql<string>`DATE(${studySessions.createdAt})` }).from(studySessions).where(eq(studySessions.userId, userId)).orderBy(desc(sql<string>`DATE(${studySessions.createdAt})`));
 
     // Execute in parallel
     const [
@@ -218,24 +591,7 @@ export class DrizzleStorage implements IStorage {
     const totalCorrect = Number(progressStats[0]?.totalCorrect) || 0;
     const masteryRate = totalStudied > 0 ? Math.round((totalCorrect / totalStudied) * 100) : 0;
 
-    let streakDays = 0;
-    if (sessionDatesResult.length > 0) {
-        let currentDate = new Date();
-        let lastDate = new Date(sessionDatesResult[0].date);
-        if (Math.abs(currentDate.getTime() - lastDate.getTime()) / (1000 * 3600 * 24) <= 1) {
-            streakDays = 1;
-            for (let i = 1; i < sessionDatesResult.length; i++) {
-                const prevDate = new Date(sessionDatesResult[i].date);
-                const diffDays = (lastDate.getTime() - prevDate.getTime()) / (1000 * 3600 * 24);
-                if (diffDays === 1) {
-                    streakDays++;
-                    lastDate = prevDate;
-                } else {
-                    break;
-                }
-            }
-        }
-    }
+    const streakDays = calculateStreakDays(sessionDatesResult.map(r => r.date));
 
     return {
       streakDays,
@@ -257,15 +613,23 @@ export class DrizzleStorage implements IStorage {
   
   // ===== VOCABULARY MANAGEMENT =====
   async getVocabularyBook(userId: string): Promise<WordWithProgress[]> {
-    const results = await db.select().from(userProgress)
-      .where(and(eq(userProgress.userId, userId), eq(userProgress.isInVocabularyBook, true)))
+    const results = await this.db.select().from(userProgress)
+      .where(and(eq(userProgress.userId, userId), eq(userProgress.isInVocabularyBook, true), this.onLiveWord()))
       .leftJoin(words, eq(userProgress.wordId, words.id));
     return results.map(r => ({ ...r.words!, progress: r.user_progress }));
   }
 
+  async getLeeches(userId: string): Promise<WordWithProgress[]> {
+    const results = await this.db.select().from(userProgress)
+      .where(and(eq(userProgress.userId, userId), eq(userProgress.isLeech, true), this.onLiveWord()))
+      .leftJoin(words, eq(userProgress.wordId, words.id))
+      .orderBy(desc(userProgress.lapses));
+    return results.map(r => ({ ...r.words!, progress: r.user_progress }));
+  }
+
   async getStarredWords(userId: string): Promise<WordWithProgress[]> {
-    const results = await db.select().from(userProgress)
-      .where(and(eq(userProgress.userId, userId), eq(userProgress.isStarred, true)))
+    const results = await this.db.select().from(userProgress)
+      .where(and(eq(userProgress.userId, userId), eq(userProgress.isStarred, true), this.onLiveWord()))
       .leftJoin(words, eq(userProgress.wordId, words.id));
     return results.map(r => ({ ...r.words!, progress: r.user_progress }));
   }
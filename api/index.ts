@@ -3,6 +3,10 @@ import session from "express-session";
 import passport from "./auth.js";
 import { registerRoutes } from "./routes.js";
 import connectPgSimple from 'connect-pg-simple';
+import createMemoryStore from 'memorystore';
+import { usesMemoryStorage } from "./storage-instance.js";
+import { startSchedulerOptimizerJob } from "./scheduler-optimizer.js";
+import { runTrashPurge, startTrashPurgeJob } from "./trash.js";
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -27,11 +31,15 @@ if (!process.env.SESSION_SECRET) {
   process.env.SESSION_SECRET = "dev-secret";
 }
 const PgSession = connectPgSimple(session);
+const MemoryStore = createMemoryStore(session);
 app.use(session({
-  store: new PgSession({
-    conString: process.env.DATABASE_URL,
-    createTableIfMissing: true,
-  }),
+  // Sessions follow the data storage so STORAGE=memory needs no database at all
+  store: usesMemoryStorage
+    ? new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 })
+    : new PgSession({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: true,
+      }),
   secret: process.env.SESSION_SECRET,
   resave: false,
   saveUninitialized: false,
@@ -61,6 +69,9 @@ if (process.env.NODE_ENV !== 'development') {
   });
 }
 
+// Empty expired trash on startup, which on Vercel means every cold start
+runTrashPurge().catch(error => console.error("Trash purge failed:", error));
+
 // Vercel exports the Express app instance as the default handler
 export default app;
 
@@ -70,4 +81,6 @@ if (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'producti
   app.listen(port, () => {
     console.log(`API server listening on http://localhost:${port} (${process.env.NODE_ENV})`);
   });
+  startSchedulerOptimizerJob();
+  startTrashPurgeJob();
 }
\ No newline at end of file
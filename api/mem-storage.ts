@@ -0,0 +1,806 @@
+import { createHash, randomUUID } from "crypto";
+import type { User, Word, UserProgress, StudySession, PracticeResult, StudyPlan, InsertUser, InsertWord, InsertUserProgress, InsertStudySession, InsertPracticeResult, InsertStudyPlan, ReviewLog, InsertReviewLog, SchedulerParams, InsertSchedulerParams, ReviewSnapshot, InsertReviewSnapshot, WordWithProgress, DashboardStats, NewWordOrder, CardTemplate, WordSense, WordSenseInput, WordExample, WordExampleInput, Collection, CollectionWord, InsertCollection, CollectionSubscription, WordRevision, InsertWordRevision } from "../shared/schema.js";
+import { calculateStreakDays, type IStorage, type TransactionOptions } from "./storage.js";
+import { canSeeWord } from "../shared/roles.js";
+import { hasClozeExample, type SensedWord } from "../shared/word-senses.js";
+import { dayKey } from "../shared/spaced-repetition.js";
+
+// In-memory implementation of IStorage. Data lives only as long as the process,
+// which makes it suitable for tests and for running the API without Postgres.
+// Column defaults mirror the ones declared in shared/schema.ts.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private words = new Map<string, Word>();
+  private wordSenses = new Map<string, WordSense>();
+  private wordExamples = new Map<string, WordExample>();
+  private wordRevisions = new Map<string, WordRevision>();
+  private userProgress = new Map<string, UserProgress>();
+  private studySessions = new Map<string, StudySession>();
+  private practiceResults = new Map<string, PracticeResult>();
+  private studyPlans = new Map<string, StudyPlan>();
+  private collections = new Map<string, Collection>();
+  private collectionWords: CollectionWord[] = [];
+  private collectionSubscriptions: CollectionSubscription[] = [];
+  private reviewLogs: ReviewLog[] = [];
+  private reviewSnapshots: ReviewSnapshot[] = [];
+  private schedulerParams = new Map<string, SchedulerParams>();
+
+  // Memory writes are not rolled back and never interleave, so the work only runs
+  // against this storage
+  async transaction<T>(work: (storage: IStorage) => Promise<T>, _options?: TransactionOptions): Promise<T> {
+    return await work(this);
+  }
+
+  // ===== USER MANAGEMENT =====
+  async findUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.email === email);
+  }
+
+  async findUserById(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async countUsers(): Promise<number> {
+    return this.users.size;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (await this.findUserByEmail(user.email)) {
+      throw new Error(`User with email ${user.email} already exists`);
+    }
+    const created: User = { id: randomUUID(), schedulerAlgorithm: "sm2", leechThreshold: 8, leechAction: "tag", role: "learner", createdAt: new Date(), ...user };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...updates, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  // ===== WORD MANAGEMENT =====
+  private visibleWords(userId?: string): Word[] {
+    return Array.from(this.words.values()).filter(w => !w.deletedAt && canSeeWord(userId, w));
+  }
+
+  private isLiveWord(id: string): boolean {
+    const word = this.words.get(id);
+    return !!word && !word.deletedAt;
+  }
+
+  async getAllWords(userId?: string): Promise<Word[]> {
+    return this.visibleWords(userId);
+  }
+
+  async getWordsByCategory(category: string, userId?: string): Promise<Word[]> {
+    return this.visibleWords(userId).filter(w => w.category === category);
+  }
+
+  async getWord(id: string): Promise<Word | undefined> {
+    return this.isLiveWord(id) ? this.words.get(id) : undefined;
+  }
+
+  async getWordsByIds(ids: string[], userId?: string): Promise<Word[]> {
+    return this.visibleWords(userId).filter(w => ids.includes(w.id));
+  }
+
+  async searchWords(query: string, userId?: string): Promise<Word[]> {
+    const needle = query.toLowerCase();
+    return this.visibleWords(userId).filter(w => w.word.toLowerCase().includes(needle));
+  }
+
+  async findWordByText(word: string, userId?: string): Promise<Word | undefined> {
+    return this.visibleWords(userId).find(w => w.word === word);
+  }
+
+  async createWord(word: InsertWord): Promise<Word> {
+    const created: Word = {
+      id: randomUUID(),
+      difficulty: 1,
+      category: "general",
+      frequency: 1,
+      ownerId: null,
+      deletedAt: null,
+      ...word,
+    };
+    this.words.set(created.id, created);
+    return created;
+  }
+
+  async updateWord(id: string, word: Partial<InsertWord>): Promise<Word | undefined> {
+    const existing = this.words.get(id);
+    if (!existing) {
+      // Mirror the Drizzle behaviour of returning no row for an unknown id
+      return undefined;
+    }
+    const updated = { ...existing, ...word };
+    this.words.set(id, updated);
+    return updated;
+  }
+
+  async deleteWord(id: string): Promise<void> {
+    const word = this.words.get(id);
+    if (word && !word.deletedAt) word.deletedAt = new Date();
+  }
+
+  async getDeletedWords(userId: string): Promise<Word[]> {
+    return Array.from(this.words.values())
+      .filter(w => w.deletedAt && canSeeWord(userId, w))
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreWord(id: string): Promise<Word | undefined> {
+    const word = this.words.get(id);
+    if (!word?.deletedAt) return undefined;
+    word.deletedAt = null;
+    return word;
+  }
+
+  async purgeDeletedWords(before: Date): Promise<number> {
+    const expired = Array.from(this.words.values()).filter(w => w.deletedAt && w.deletedAt < before);
+    for (const word of expired) {
+      await this.purgeWord(word.id);
+    }
+    return expired.length;
+  }
+
+  async purgeWord(id: string): Promise<void> {
+    // Mirror the ON DELETE CASCADE foreign keys
+    for (const [progressId, progress] of Array.from(this.userProgress)) {
+      if (progress.wordId === id) this.userProgress.delete(progressId);
+    }
+    for (const [resultId, result] of Array.from(this.practiceResults)) {
+      if (result.wordId === id) this.practiceResults.delete(resultId);
+    }
+    for (const [senseId, sense] of Array.from(this.wordSenses)) {
+      if (sense.wordId === id) this.wordSenses.delete(senseId);
+    }
+    for (const [exampleId, example] of Array.from(this.wordExamples)) {
+      if (example.wordId === id) this.wordExamples.delete(exampleId);
+    }
+    for (const [revisionId, revision] of Array.from(this.wordRevisions)) {
+      if (revision.wordId === id) this.wordRevisions.delete(revisionId);
+    }
+    this.collectionWords = this.collectionWords.filter(c => c.wordId !== id);
+    this.reviewLogs = this.reviewLogs.filter(l => l.wordId !== id);
+    this.reviewSnapshots = this.reviewSnapshots.filter(s => s.wordId !== id);
+    this.words.delete(id);
+  }
+
+  private withSenses(word: Word): SensedWord {
+    const senses = Array.from(this.wordSenses.values())
+      .filter(sense => sense.wordId === word.id)
+      .sort((a, b) => a.position - b.position)
+      .map(sense => ({ ...sense, examples: Array.from(this.wordExamples.values()).filter(example => example.senseId === sense.id) }));
+    return { ...word, senses };
+  }
+
+  async getWordSenses(wordIds: string[]): Promise<WordSense[]> {
+    return Array.from(this.wordSenses.values())
+      .filter(sense => wordIds.includes(sense.wordId))
+      .sort((a, b) => a.wordId.localeCompare(b.wordId) || a.position - b.position);
+  }
+
+  async saveWordSenses(wordId: string, senses: WordSenseInput[]): Promise<WordSense[]> {
+    const keptIds = senses.flatMap(sense => sense.id && this.wordSenses.get(sense.id)?.wordId === wordId ? [sense.id] : []);
+    for (const [senseId, sense] of Array.from(this.wordSenses)) {
+      if (sense.wordId === wordId && !keptIds.includes(senseId)) this.wordSenses.delete(senseId);
+    }
+    for (const [exampleId, example] of Array.from(this.wordExamples)) {
+      if (example.wordId === wordId && !keptIds.includes(example.senseId)) this.wordExamples.delete(exampleId);
+    }
+    return senses.map((sense, position) => {
+      const created: WordSense = {
+        id: sense.id && keptIds.includes(sense.id) ? sense.id : randomUUID(),
+        wordId,
+        position,
+        partOfSpeech: sense.partOfSpeech,
+        chineseDefinition: sense.chineseDefinition,
+        englishDefinition: sense.englishDefinition ?? null,
+      };
+      this.wordSenses.set(created.id, created);
+      return created;
+    });
+  }
+
+  async getWordExamples(wordIds: string[]): Promise<WordExample[]> {
+    return Array.from(this.wordExamples.values())
+      .filter(example => wordIds.includes(example.wordId))
+      .sort((a, b) => a.senseId.localeCompare(b.senseId) || a.position - b.position);
+  }
+
+  async saveSenseExamples(wordId: string, senseId: string, examples: WordExampleInput[]): Promise<WordExample[]> {
+    const keptIds = examples.flatMap(example => example.id && this.wordExamples.get(example.id)?.senseId === senseId ? [example.id] : []);
+    for (const [exampleId, example] of Array.from(this.wordExamples)) {
+      if (example.senseId === senseId && !keptIds.includes(exampleId)) this.wordExamples.delete(exampleId);
+    }
+    return examples.map((example, position) => {
+      const created: WordExample = {
+        id: example.id && keptIds.includes(example.id) ? example.id : randomUUID(),
+        wordId,
+        senseId,
+        position,
+        english: example.english,
+        chinese: example.chinese,
+        source: example.source ?? null,
+        difficulty: example.difficulty ?? 1,
+      };
+      this.wordExamples.set(created.id, created);
+      return created;
+    });
+  }
+
+  async getWordRevisions(wordId: string): Promise<WordRevision[]> {
+    // Reversed first so revisions made within the same millisecond also come newest first
+    return Array.from(this.wordRevisions.values()).reverse()
+      .filter(revision => revision.wordId === wordId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getWordRevision(id: string): Promise<WordRevision | undefined> {
+    return this.wordRevisions.get(id);
+  }
+
+  async getPendingWordRevisions(): Promise<WordRevision[]> {
+    return Array.from(this.wordRevisions.values())
+      .filter(revision => revision.status === "pending")
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createWordRevision(revision: InsertWordRevision): Promise<WordRevision> {
+    const created: WordRevision = {
+      id: randomUUID(),
+      userId: null,
+      status: "applied",
+      changedFields: [],
+      revertedRevisionId: null,
+      comment: null,
+      reviewerId: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+      ...revision,
+    };
+    this.wordRevisions.set(created.id, created);
+    return created;
+  }
+
+  async updateWordRevision(id: string, updates: Partial<InsertWordRevision>): Promise<WordRevision | undefined> {
+    const existing = this.wordRevisions.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates };
+    this.wordRevisions.set(id, updated);
+    return updated;
+  }
+
+  // ===== USER PROGRESS =====
+  async getUserProgress(userId: string, wordId: string, template: CardTemplate = "recognition"): Promise<UserProgress | undefined> {
+    return Array.from(this.userProgress.values()).find(p => p.userId === userId && p.wordId === wordId && p.template === template);
+  }
+
+  async getWordProgress(userId: string, wordId: string): Promise<UserProgress[]> {
+    return this.progressForUser(userId).filter(p => p.wordId === wordId);
+  }
+
+  async updateUserProgress(userId: string, wordId: string, progress: Partial<InsertUserProgress>, template: CardTemplate = "recognition"): Promise<UserProgress> {
+    const existing = await this.getUserProgress(userId, wordId, template);
+    if (existing) {
+      const updated = { ...existing, ...progress };
+      this.userProgress.set(existing.id, updated);
+      return updated;
+    }
+    const created: UserProgress = {
+      id: randomUUID(),
+      masteryLevel: 0,
+      timesStudied: 0,
+      timesCorrect: 0,
+      lastStudied: null,
+      nextReview: null,
+      interval: 0,
+      easeFactor: 2.5,
+      repetitions: 0,
+      stability: null,
+      difficulty: null,
+      cardState: "new",
+      learningStep: 0,
+      lapses: 0,
+      isLeech: false,
+      isSuspended: false,
+      buriedUntil: null,
+      isStarred: false,
+      isInVocabularyBook: false,
+      ...progress,
+      userId,
+      wordId,
+      template,
+    };
+    this.userProgress.set(created.id, created);
+    return created;
+  }
+
+  private withWords(progressRows: UserProgress[]): WordWithProgress[] {
+    return progressRows
+      .filter(p => this.isLiveWord(p.wordId))
+      .map(p => ({ ...this.words.get(p.wordId)!, progress: p }));
+  }
+
+  private progressForUser(userId: string): UserProgress[] {
+    return Array.from(this.userProgress.values()).filter(p => p.userId === userId);
+  }
+
+  // Suspended and buried words are left out of scheduling
+  private isSchedulable(p: UserProgress, now: Date): boolean {
+    return !p.isSuspended && (!p.buriedUntil || p.buriedUntil <= now);
+  }
+
+  async getAllUserProgress(userId: string): Promise<UserProgress[]> {
+    return this.progressForUser(userId);
+  }
+
+  async getWordsForReview(userId: string): Promise<WordWithProgress[]> {
+    const now = new Date();
+    return this.withWords(this.progressForUser(userId).filter(p => p.nextReview && p.nextReview <= now && this.isSchedulable(p, now)));
+  }
+
+  async getWordsByMasteryLevel(userId: string, minLevel: number, maxLevel: number): Promise<WordWithProgress[]> {
+    return this.withWords(this.progressForUser(userId).filter(p => p.masteryLevel >= minLevel && p.masteryLevel <= maxLevel));
+  }
+
+  async getNewWordsForPlan(userId: string, target: Pick<StudyPlan, "targetCategory" | "targetCollectionId">, templates: CardTemplate[], limit: number, order: NewWordOrder, seed: number): Promise<Word[]> {
+    const now = new Date();
+    const unavailable = new Map<string, number>();
+    for (const p of this.progressForUser(userId)) {
+      if (p.template === "cloze" && !hasClozeExample(this.withSenses(this.words.get(p.wordId)!))) continue;
+      if (templates.includes(p.template as CardTemplate) && (p.lastStudied || !this.isSchedulable(p, now))) {
+        unavailable.set(p.wordId, (unavailable.get(p.wordId) ?? 0) + 1);
+      }
+    }
+    // Same keys as the SQL ordering in DrizzleStorage
+    const randomKey = (w: Word) => createHash("md5").update(`${w.id}${seed}`).digest("hex");
+    const compare: Record<NewWordOrder, (a: Word, b: Word) => number> = {
+      frequency: (a, b) => b.frequency - a.frequency,
+      difficulty: (a, b) => a.difficulty - b.difficulty,
+      alphabetical: () => 0,
+      random: (a, b) => randomKey(a).localeCompare(randomKey(b)),
+    };
+    const candidates = target.targetCollectionId
+      ? this.visibleWords(userId).filter(w => this.collectionWords.some(c => c.collectionId === target.targetCollectionId && c.wordId === w.id))
+      : await this.getWordsByCategory(target.targetCategory, userId);
+    // Words without an example containing them get no cloze card
+    const availableTemplates = (w: Word) => templates.length - (templates.includes("cloze") && !hasClozeExample(this.withSenses(w)) ? 1 : 0);
+    return candidates
+      .filter(w => (unavailable.get(w.id) ?? 0) < availableTemplates(w))
+      .sort((a, b) => compare[order](a, b) || a.word.localeCompare(b.word))
+      .slice(0, limit);
+  }
+
+  async getDueCountsByDay(userId: string, from: Date, timezoneOffset = 0): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const p of this.progressForUser(userId)) {
+      if (!p.nextReview || p.nextReview < from || !this.isLiveWord(p.wordId)) continue;
+      const day = dayKey(p.nextReview, timezoneOffset);
+      counts[day] = (counts[day] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  // ===== REVIEW LOGS =====
+  async createReviewLog(log: InsertReviewLog): Promise<ReviewLog> {
+    const created: ReviewLog = {
+      id: randomUUID(),
+      responseTime: null,
+      template: "recognition",
+      scheduler: "sm2",
+      cardState: "review",
+      stability: null,
+      difficulty: null,
+      previousInterval: 0,
+      previousEaseFactor: 2.5,
+      reviewedAt: new Date(),
+      undoneAt: null,
+      ...log,
+    };
+    this.reviewLogs.push(created);
+    return created;
+  }
+
+  async getReviewLogs(userId: string, wordId?: string): Promise<ReviewLog[]> {
+    return this.reviewLogs
+      .filter(l => l.userId === userId && !l.undoneAt && (!wordId || l.wordId === wordId))
+      .reverse();
+  }
+
+  async getReviewLogsSince(userId: string, since: Date): Promise<ReviewLog[]> {
+    return (await this.getReviewLogs(userId)).filter(l => l.reviewedAt >= since);
+  }
+
+  async getWordsReviewedBefore(userId: string, wordIds: string[], before: Date): Promise<string[]> {
+    return wordIds.filter(wordId => this.reviewLogs.some(l => l.userId === userId && l.wordId === wordId && !l.undoneAt && l.reviewedAt < before));
+  }
+
+  async markReviewLogUndone(id: string): Promise<void> {
+    const log = this.reviewLogs.find(l => l.id === id);
+    if (log) log.undoneAt = new Date();
+    for (const [resultId, result] of Array.from(this.practiceResults)) {
+      if (result.reviewLogId === id) this.practiceResults.delete(resultId);
+    }
+  }
+
+  // ===== REVIEW SNAPSHOTS =====
+  async createReviewSnapshot(snapshot: InsertReviewSnapshot): Promise<ReviewSnapshot> {
+    const created: ReviewSnapshot = { id: randomUUID(), template: "recognition", progress: null, createdAt: new Date(), ...snapshot };
+    this.reviewSnapshots.push(created);
+    return created;
+  }
+
+  async getLatestReviewSnapshot(userId: string): Promise<ReviewSnapshot | undefined> {
+    return this.reviewSnapshots.filter(s => s.userId === userId).pop();
+  }
+
+  async deleteReviewSnapshot(id: string): Promise<void> {
+    this.reviewSnapshots = this.reviewSnapshots.filter(s => s.id !== id);
+  }
+
+  async pruneReviewSnapshots(userId: string, keep: number): Promise<void> {
+    const kept = new Set(this.reviewSnapshots.filter(s => s.userId === userId).slice(-keep).map(s => s.id));
+    this.reviewSnapshots = this.reviewSnapshots.filter(s => s.userId !== userId || kept.has(s.id));
+  }
+
+  // ===== SCHEDULER PARAMETERS =====
+  async getSchedulerParams(userId: string): Promise<SchedulerParams | undefined> {
+    return this.schedulerParams.get(userId);
+  }
+
+  async saveSchedulerParams(params: InsertSchedulerParams): Promise<SchedulerParams> {
+    const saved: SchedulerParams = {
+      targetRetention: 0.9,
+      observedRetention: null,
+      estimatedRetention: null,
+      ...params,
+      fittedAt: new Date(),
+    };
+    this.schedulerParams.set(params.userId, saved);
+    return saved;
+  }
+
+  // ===== STUDY SESSIONS =====
+  async createStudySession(session: InsertStudySession & { userId: string }): Promise<StudySession> {
+    const created: StudySession = {
+      id: randomUUID(),
+      wordsLearned: 0,
+      timeSpent: 0,
+      accuracy: 0,
+      newWords: 0,
+      reviewedWords: 0,
+      items: [],
+      currentIndex: 0,
+      status: "active",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...session,
+    };
+    this.studySessions.set(created.id, created);
+    return created;
+  }
+
+  async getStudySession(userId: string, sessionId: string): Promise<StudySession | undefined> {
+    const session = this.studySessions.get(sessionId);
+    return session?.userId === userId ? session : undefined;
+  }
+
+  async updateStudySession(sessionId: string, updates: Partial<StudySession>): Promise<StudySession | undefined> {
+    const existing = this.studySessions.get(sessionId);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...updates, id: existing.id, updatedAt: new Date() };
+    this.studySessions.set(sessionId, updated);
+    return updated;
+  }
+
+  async getRecentStudySessions(userId: string, limit: number): Promise<StudySession[]> {
+    return Array.from(this.studySessions.values())
+      .filter(s => s.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getActiveStudySession(userId: string, sessionTypes: string[], since: Date): Promise<StudySession | undefined> {
+    return Array.from(this.studySessions.values())
+      .filter(s => s.userId === userId && sessionTypes.includes(s.sessionType) && s.status === "active" && s.updatedAt >= since)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+  }
+
+  async getStudySessions(userId: string, filter: { sessionType?: string; from?: Date; to?: Date }, limit: number, offset: number): Promise<{ sessions: StudySession[]; total: number }> {
+    const matching = Array.from(this.studySessions.values())
+      .filter(s => s.userId === userId
+        && (!filter.sessionType || s.sessionType === filter.sessionType)
+        && (!filter.from || s.createdAt >= filter.from)
+        && (!filter.to || s.createdAt < filter.to))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return { sessions: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  // ===== PRACTICE RESULTS =====
+  async savePracticeResult(result: InsertPracticeResult): Promise<PracticeResult> {
+    const created: PracticeResult = {
+      id: randomUUID(),
+      userAnswer: null,
+      timeSpent: 0,
+      reviewLogId: null,
+      createdAt: new Date(),
+      ...result,
+    };
+    this.practiceResults.set(created.id, created);
+    return created;
+  }
+
+  async getPracticeHistory(userId: string, wordId: string): Promise<PracticeResult[]> {
+    return Array.from(this.practiceResults.values())
+      .filter(r => r.userId === userId && r.wordId === wordId)
+      .reverse();
+  }
+
+  async getUserPracticeResults(userId: string): Promise<PracticeResult[]> {
+    return Array.from(this.practiceResults.values()).filter(r => r.userId === userId);
+  }
+
+  async getSessionPracticeResults(userId: string, sessionId: string): Promise<PracticeResult[]> {
+    return Array.from(this.practiceResults.values()).filter(r => r.userId === userId && r.sessionId === sessionId);
+  }
+
+  // ===== STUDY PLANS =====
+  private deactivateAllPlans(userId: string) {
+    for (const plan of Array.from(this.studyPlans.values())) {
+      if (plan.userId === userId) plan.isActive = false;
+    }
+  }
+
+  async createStudyPlan(plan: InsertStudyPlan): Promise<StudyPlan> {
+    this.deactivateAllPlans(plan.userId);
+    const created: StudyPlan = {
+      id: randomUUID(),
+      dailyWordCount: 20,
+      studyDuration: 30,
+      reviewStrategy: "spaced",
+      desiredRetention: 0.9,
+      maxReviewsPerDay: 100,
+      newWordOrder: "frequency",
+      newWordSeed: Math.floor(Math.random() * 1000000),
+      learningSteps: [1, 10],
+      relearningSteps: [10],
+      cardTemplates: ["recognition"],
+      targetCollectionId: null,
+      deletedAt: null,
+      createdAt: new Date(),
+      ...plan,
+      isActive: true,
+    };
+    this.studyPlans.set(created.id, created);
+    return created;
+  }
+
+  async getAllUserPlans(userId: string): Promise<StudyPlan[]> {
+    return Array.from(this.studyPlans.values())
+      .filter(p => p.userId === userId && !p.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getActiveStudyPlan(userId: string): Promise<StudyPlan | undefined> {
+    return Array.from(this.studyPlans.values()).find(p => p.userId === userId && p.isActive && !p.deletedAt);
+  }
+
+  async updateStudyPlan(userId: string, id: string, updates: Partial<InsertStudyPlan>): Promise<StudyPlan | undefined> {
+    const existing = this.studyPlans.get(id);
+    if (!existing || existing.userId !== userId || existing.deletedAt) {
+      return undefined;
+    }
+    const updated = { ...existing, ...updates, userId };
+    this.studyPlans.set(id, updated);
+    return updated;
+  }
+
+  async deleteStudyPlan(userId: string, id: string): Promise<void> {
+    const plan = this.studyPlans.get(id);
+    if (plan?.userId === userId && !plan.deletedAt) {
+      plan.deletedAt = new Date();
+      plan.isActive = false;
+    }
+  }
+
+  async activateStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined> {
+    const plan = this.studyPlans.get(id);
+    if (!plan || plan.userId !== userId || plan.deletedAt) {
+      return undefined;
+    }
+    this.deactivateAllPlans(userId);
+    plan.isActive = true;
+    return plan;
+  }
+
+  async getDeletedStudyPlans(userId: string): Promise<StudyPlan[]> {
+    return Array.from(this.studyPlans.values())
+      .filter(p => p.userId === userId && p.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  async restoreStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined> {
+    const plan = this.studyPlans.get(id);
+    if (plan?.userId !== userId || !plan.deletedAt) return undefined;
+    plan.deletedAt = null;
+    return plan;
+  }
+
+  async purgeStudyPlan(userId: string, id: string): Promise<void> {
+    if (this.studyPlans.get(id)?.userId === userId) {
+      this.studyPlans.delete(id);
+    }
+  }
+
+  async purgeDeletedStudyPlans(before: Date): Promise<number> {
+    const expired = Array.from(this.studyPlans.values()).filter(p => p.deletedAt && p.deletedAt < before);
+    for (const plan of expired) {
+      this.studyPlans.delete(plan.id);
+    }
+    return expired.length;
+  }
+
+  // ===== COLLECTIONS =====
+  async getCollections(userId: string): Promise<Collection[]> {
+    return Array.from(this.collections.values())
+      .filter(c => c.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCollection(userId: string, id: string): Promise<Collection | undefined> {
+    const collection = this.collections.get(id);
+    return collection?.userId === userId ? collection : undefined;
+  }
+
+  async createCollection(collection: InsertCollection): Promise<Collection> {
+    const created: Collection = { id: randomUUID(), description: null, isPublic: false, forkedFromId: null, createdAt: new Date(), ...collection };
+    this.collections.set(created.id, created);
+    return created;
+  }
+
+  async updateCollection(userId: string, id: string, updates: Partial<InsertCollection>): Promise<Collection | undefined> {
+    const existing = await this.getCollection(userId, id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...updates, userId };
+    this.collections.set(id, updated);
+    return updated;
+  }
+
+  async deleteCollection(userId: string, id: string): Promise<void> {
+    if (!(await this.getCollection(userId, id))) return;
+    // Mirror the foreign keys: words and subscribers are removed from it, and plans and
+    // forks stop referring to it
+    this.collectionWords = this.collectionWords.filter(c => c.collectionId !== id);
+    this.collectionSubscriptions = this.collectionSubscriptions.filter(s => s.collectionId !== id);
+    for (const collection of Array.from(this.collections.values())) {
+      if (collection.forkedFromId === id) collection.forkedFromId = null;
+    }
+    for (const plan of Array.from(this.studyPlans.values())) {
+      if (plan.targetCollectionId === id) plan.targetCollectionId = null;
+    }
+    this.collections.delete(id);
+  }
+
+  async getCollectionWords(collectionIds: string[]): Promise<CollectionWord[]> {
+    return this.collectionWords.filter(c => collectionIds.includes(c.collectionId));
+  }
+
+  async addWordToCollection(collectionId: string, wordId: string): Promise<void> {
+    if (this.collectionWords.some(c => c.collectionId === collectionId && c.wordId === wordId)) return;
+    this.collectionWords.push({ id: randomUUID(), collectionId, wordId, addedAt: new Date() });
+  }
+
+  async removeWordFromCollection(collectionId: string, wordId: string): Promise<void> {
+    this.collectionWords = this.collectionWords.filter(c => !(c.collectionId === collectionId && c.wordId === wordId));
+  }
+
+  async getCollectionById(id: string): Promise<Collection | undefined> {
+    return this.collections.get(id);
+  }
+
+  async getPublicCollections(search?: string): Promise<Collection[]> {
+    const needle = search?.toLowerCase();
+    return Array.from(this.collections.values())
+      .filter(c => c.isPublic && (!needle || c.name.toLowerCase().includes(needle) || !!c.description?.toLowerCase().includes(needle)))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSubscribedCollections(userId: string): Promise<Collection[]> {
+    return this.collectionSubscriptions
+      .filter(s => s.userId === userId && this.collections.has(s.collectionId))
+      .map(s => this.collections.get(s.collectionId)!);
+  }
+
+  async getCollectionSubscriptions(collectionIds: string[]): Promise<CollectionSubscription[]> {
+    return this.collectionSubscriptions.filter(s => collectionIds.includes(s.collectionId));
+  }
+
+  async subscribeToCollection(userId: string, collectionId: string): Promise<void> {
+    if (this.collectionSubscriptions.some(s => s.userId === userId && s.collectionId === collectionId)) return;
+    this.collectionSubscriptions.push({ id: randomUUID(), userId, collectionId, createdAt: new Date() });
+  }
+
+  async unsubscribeFromCollection(userId: string, collectionId: string): Promise<void> {
+    this.collectionSubscriptions = this.collectionSubscriptions.filter(s => !(s.userId === userId && s.collectionId === collectionId));
+  }
+
+  // ===== DASHBOARD =====
+  async getDashboardStats(userId: string): Promise<DashboardStats> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const tomorrow = new Date(today);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const sevenDaysFromNow = new Date(today);
+    sevenDaysFromNow.setDate(sevenDaysFromNow.getDate() + 7);
+
+    const activePlan = await this.getActiveStudyPlan(userId);
+    const now = new Date();
+    const progress = this.progressForUser(userId);
+    const schedulable = progress.filter(p => this.isSchedulable(p, now) && this.isLiveWord(p.wordId));
+    const sessions = Array.from(this.studySessions.values()).filter(s => s.userId === userId);
+
+    const totalWordsLearned = new Set(progress.filter(p => p.timesStudied >= 1).map(p => p.wordId)).size;
+    const todaySeconds = sessions.filter(s => s.createdAt >= today).reduce((total, s) => total + s.timeSpent, 0);
+    const todayStudyTime = Math.round(todaySeconds / 60);
+    const totalStudied = progress.reduce((total, p) => total + p.timesStudied, 0);
+    const totalCorrect = progress.reduce((total, p) => total + p.timesCorrect, 0);
+    const masteryRate = totalStudied > 0 ? Math.round((totalCorrect / totalStudied) * 100) : 0;
+
+    const studiedToday = progress.filter(p => p.lastStudied && p.lastStudied >= today);
+    const sessionDates = Array.from(new Set(sessions.map(s => s.createdAt.toISOString().slice(0, 10)))).sort().reverse();
+
+    return {
+      streakDays: calculateStreakDays(sessionDates),
+      totalWordsLearned,
+      masteryRate,
+      todayStudyTime,
+      todayProgress: {
+        newWords: { current: studiedToday.filter(p => p.timesStudied === 1).length, target: activePlan?.dailyWordCount || 10 },
+        review: { current: studiedToday.filter(p => p.timesStudied >= 2).length, target: 15 },
+        listening: { current: 0, target: 8 },
+      },
+      reviewReminders: {
+        urgent: schedulable.filter(p => !p.nextReview || p.nextReview <= today).length,
+        regular: schedulable.filter(p => p.nextReview && p.nextReview >= tomorrow && p.nextReview <= sevenDaysFromNow).length,
+        consolidation: schedulable.filter(p => p.nextReview && p.nextReview >= sevenDaysFromNow).length,
+      }
+    };
+  }
+
+  // ===== VOCABULARY MANAGEMENT =====
+  async getVocabularyBook(userId: string): Promise<WordWithProgress[]> {
+    return this.withWords(this.progressForUser(userId).filter(p => p.isInVocabularyBook));
+  }
+
+  async getLeeches(userId: string): Promise<WordWithProgress[]> {
+    return this.withWords(this.progressForUser(userId).filter(p => p.isLeech))
+      .sort((a, b) => b.progress!.lapses - a.progress!.lapses);
+  }
+
+  async getStarredWords(userId: string): Promise<WordWithProgress[]> {
+    return this.withWords(this.progressForUser(userId).filter(p => p.isStarred));
+  }
+
+  async toggleWordStar(userId: string, wordId: string): Promise<void> {
+    const existing = await this.getUserProgress(userId, wordId);
+    const isStarred = existing?.isStarred || false;
+    await this.updateUserProgress(userId, wordId, { isStarred: !isStarred });
+  }
+
+  async addToVocabularyBook(userId: string, wordId: string): Promise<void> {
+    await this.updateUserProgress(userId, wordId, { isInVocabularyBook: true });
+  }
+}
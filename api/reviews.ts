@@ -0,0 +1,333 @@
+import { storage } from "./storage-instance.js";
+import { SpacedRepetitionScheduler, spacedRepetitionUtils, type CardState, type ReviewSchedule, type ReviewScheduler, type SchedulerAlgorithm } from "../shared/spaced-repetition.js";
+import { FsrsScheduler } from "../shared/fsrs.js";
+import { DEFAULT_LEARNING_STEPS, DEFAULT_RELEARNING_STEPS, withLearningSteps } from "../shared/learning-steps.js";
+import { hasClozeExample } from "../shared/word-senses.js";
+import { getSm2Parameters } from "./scheduler-optimizer.js";
+import { recordPracticeResult } from "./study-sessions.js";
+import { attachSenses, type WordWithSenses } from "./word-senses.js";
+import { UNDO_HISTORY_SIZE } from "../shared/schema.js";
+import type { CardTemplate, InsertUserProgress, NewWordOrder, ReviewOutcome, ReviewSubmission, StudyCard, StudyPlan, UndoOutcome, UserProgress } from "../shared/schema.js";
+
+// Grades at or above this value count as a correct recall
+const PASSING_GRADE = 3;
+
+// Used when the user has no active plan; matches the study_plans column defaults
+const DEFAULT_DESIRED_RETENTION = 0.9;
+const DEFAULT_MAX_REVIEWS_PER_DAY = 100;
+const DEFAULT_CARD_TEMPLATES: CardTemplate[] = ["recognition"];
+// Used when the user cannot be loaded; matches the users column defaults
+const DEFAULT_LEECH_THRESHOLD = 8;
+const DEFAULT_LEECH_ACTION = "tag";
+
+const SCHEDULERS: Record<SchedulerAlgorithm, ReviewScheduler> = {
+  sm2: SpacedRepetitionScheduler,
+  fsrs: FsrsScheduler,
+};
+
+export function getScheduler(algorithm: string): ReviewScheduler {
+  return SCHEDULERS[algorithm as SchedulerAlgorithm] ?? SpacedRepetitionScheduler;
+}
+
+/**
+ * Current schedule of a progress row, or null if the word has never been reviewed.
+ * A row can exist without reviews, e.g. when the word was only starred.
+ */
+function toSchedule(progress: UserProgress | undefined): ReviewSchedule | null {
+  if (!progress || !progress.lastStudied) return null;
+  return {
+    interval: progress.interval,
+    easeFactor: progress.easeFactor,
+    repetitions: progress.repetitions,
+    nextReviewDate: progress.nextReview ?? progress.lastStudied,
+    stability: progress.stability,
+    difficulty: progress.difficulty,
+    lastReviewDate: progress.lastStudied,
+    // Rows reviewed before card states existed are still "new"; they are in review
+    cardState: progress.cardState === "new" ? "review" : progress.cardState as CardState,
+    learningStep: progress.learningStep,
+  };
+}
+
+function cardTemplates(plan: StudyPlan | undefined): CardTemplate[] {
+  return (plan?.cardTemplates as CardTemplate[] | undefined) ?? DEFAULT_CARD_TEMPLATES;
+}
+
+function isLearning(progress: UserProgress | undefined): boolean {
+  return progress?.cardState === "learning" || progress?.cardState === "relearning";
+}
+
+/**
+ * A word becomes a leech when its lapses reach the threshold, and is flagged again
+ * every half threshold after that if it keeps being forgotten.
+ */
+function isLeechLapse(lapses: number, threshold: number): boolean {
+  return lapses >= threshold && (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
+function leechActionUpdates(action: string): Partial<InsertUserProgress> {
+  switch (action) {
+    case "suspend":
+      return { isLeech: true, isSuspended: true };
+    case "vocabularyBook":
+      return { isLeech: true, isInVocabularyBook: true };
+    default:
+      return { isLeech: true };
+  }
+}
+
+/**
+ * Grade one card of a word for a user: run the user's scheduler with the server clock,
+ * store the new schedule on the card's userProgress row and append the review to the
+ * review log. Due dates are balanced against the cards the user already has due on each
+ * day of their own timezone. Forgetting a card in review counts as a lapse; enough lapses make it a leech.
+ * A review given in a study session is also recorded as an answer of that session.
+ */
+export async function applyReview(userId: string, { wordId, template, grade, responseTime, sessionId, timezoneOffset }: ReviewSubmission): Promise<ReviewOutcome> {
+  const [user, plan, existing, sm2Parameters, dueCounts] = await Promise.all([
+    storage.findUserById(userId),
+    storage.getActiveStudyPlan(userId),
+    storage.getUserProgress(userId, wordId, template),
+    getSm2Parameters(userId),
+    storage.getDueCountsByDay(userId, new Date(), timezoneOffset),
+  ]);
+  const algorithm = user?.schedulerAlgorithm ?? "sm2";
+  const currentSchedule = toSchedule(existing);
+  const isCorrect = grade >= PASSING_GRADE;
+
+  const schedule = withLearningSteps(getScheduler(algorithm)).calculateNextReview(
+    currentSchedule,
+    { quality: grade, isCorrect, responseTime },
+    {
+      sm2Parameters,
+      desiredRetention: plan?.desiredRetention ?? DEFAULT_DESIRED_RETENTION,
+      dueCounts,
+      timezoneOffset,
+      learningSteps: (plan?.learningSteps as number[] | undefined) ?? DEFAULT_LEARNING_STEPS,
+      relearningSteps: (plan?.relearningSteps as number[] | undefined) ?? DEFAULT_RELEARNING_STEPS,
+    }
+  );
+
+  const timesStudied = (existing?.timesStudied ?? 0) + 1;
+  const timesCorrect = (existing?.timesCorrect ?? 0) + (isCorrect ? 1 : 0);
+  const isLapse = currentSchedule?.cardState === "review" && !isCorrect;
+  const lapses = (existing?.lapses ?? 0) + (isLapse ? 1 : 0);
+  const becameLeech = isLapse && isLeechLapse(lapses, user?.leechThreshold ?? DEFAULT_LEECH_THRESHOLD);
+
+  const session = sessionId ? await storage.getStudySession(userId, sessionId) : undefined;
+  const word = session ? await storage.getWord(wordId) : undefined;
+
+  // The schedule, its log entry, the undo snapshot and the session answer are saved together
+  return await storage.transaction(async tx => {
+    const progress = await tx.updateUserProgress(userId, wordId, {
+      interval: schedule.interval,
+      easeFactor: schedule.easeFactor,
+      repetitions: schedule.repetitions,
+      // SM-2 leaves these unset, which clears any stale FSRS state so it is re-derived on switching back
+      stability: schedule.stability ?? null,
+      difficulty: schedule.difficulty ?? null,
+      cardState: schedule.cardState,
+      learningStep: schedule.learningStep,
+      nextReview: schedule.nextReviewDate,
+      lastStudied: new Date(),
+      timesStudied,
+      timesCorrect,
+      masteryLevel: spacedRepetitionUtils.calculateMasteryLevel(timesStudied, timesCorrect),
+      lapses,
+      ...(becameLeech ? leechActionUpdates(user?.leechAction ?? DEFAULT_LEECH_ACTION) : {}),
+    }, template);
+
+    const log = await tx.createReviewLog({
+      userId,
+      wordId,
+      template,
+      grade,
+      responseTime: responseTime ?? null,
+      scheduler: algorithm,
+      cardState: currentSchedule?.cardState ?? "new",
+      previousInterval: currentSchedule?.interval ?? 0,
+      previousEaseFactor: currentSchedule?.easeFactor ?? schedule.easeFactor,
+      interval: schedule.interval,
+      easeFactor: schedule.easeFactor,
+      repetitions: schedule.repetitions,
+      stability: schedule.stability ?? null,
+      difficulty: schedule.difficulty ?? null,
+      nextReview: schedule.nextReviewDate,
+    });
+
+    await tx.createReviewSnapshot({ userId, wordId, template, reviewLogId: log.id, progress: existing ? { ...existing } : null });
+    await tx.pruneReviewSnapshots(userId, UNDO_HISTORY_SIZE);
+
+    if (session) {
+      await recordPracticeResult(session, {
+        wordId,
+        exerciseType: template,
+        isCorrect,
+        // Graded cards have no typed answer; the headword stands in for the expected one
+        correctAnswer: word?.word ?? "",
+        timeSpent: responseTime ?? 0,
+        reviewLogId: log.id,
+      }, tx);
+    }
+
+    return { progress, log, becameLeech };
+  });
+}
+
+/**
+ * Due cards to serve now, most urgent first, for the templates the active plan enables.
+ * Cards in (re)learning steps are always served. Of the rest, at most the plan's daily
+ * review cap is served, minus reviews already done today; the others stay due and are
+ * picked up on later days.
+ */
+export async function getReviewQueue(userId: string): Promise<StudyCard[]> {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  const [dueWords, plan, reviewedToday] = await Promise.all([
+    storage.getWordsForReview(userId),
+    storage.getActiveStudyPlan(userId),
+    storage.getReviewLogsSince(userId, today),
+  ]);
+
+  // Reviews of new and (re)learning words do not count against the review cap
+  const reviewsDone = reviewedToday.filter(l => l.cardState === "review" && l.previousInterval > 0).length;
+  const remaining = Math.max(0, (plan?.maxReviewsPerDay ?? DEFAULT_MAX_REVIEWS_PER_DAY) - reviewsDone);
+
+  const templates = cardTemplates(plan);
+  const dueCards: StudyCard[] = dueWords
+    .map(word => ({ ...word, template: word.progress!.template as CardTemplate }))
+    .filter(card => templates.includes(card.template));
+  const learning = dueCards.filter(word => isLearning(word.progress));
+  const reviews = dueCards
+    .filter(word => !isLearning(word.progress))
+    .map(word => ({ word, priority: SpacedRepetitionScheduler.getReviewPriority(toSchedule(word.progress), word.progress?.masteryLevel ?? 0) }))
+    .sort((a, b) => b.priority - a.priority)
+    .slice(0, remaining)
+    .map(({ word }) => word);
+  return [...learning, ...reviews];
+}
+
+/**
+ * New cards to introduce now: the plan's enabled templates that have not been started
+ * for words of the plan's collection or category, in the plan's order. Words with a
+ * card first reviewed earlier today count against the plan's daily new-word count.
+ * Cards come with their word's senses; words without an example sentence containing
+ * the word get no cloze card.
+ */
+export async function getNewWordQueue(userId: string): Promise<WordWithSenses<StudyCard>[]> {
+  const plan = await storage.getActiveStudyPlan(userId);
+  if (!plan) return [];
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const reviewedToday = await storage.getReviewLogsSince(userId, today);
+  const introducedToday = new Set(reviewedToday.filter(l => l.cardState === "new").map(l => l.wordId)).size;
+  const remaining = plan.dailyWordCount - introducedToday;
+  if (remaining <= 0) return [];
+
+  const templates = cardTemplates(plan);
+  const newWords = await attachSenses(await storage.getNewWordsForPlan(userId, plan, templates, remaining, plan.newWordOrder as NewWordOrder, plan.newWordSeed));
+  const now = new Date();
+  const cards = await Promise.all(newWords.map(async word => {
+    const progress = await storage.getWordProgress(userId, word.id);
+    return templates
+      // A blank needs an example sentence with the word in it
+      .filter(template => template !== "cloze" || hasClozeExample(word))
+      .map(template => ({ ...word, template, progress: progress.find(p => p.template === template) }))
+      .filter(({ progress }) => !progress || (!progress.lastStudied && !progress.isSuspended && (!progress.buriedUntil || progress.buriedUntil <= now)));
+  }));
+  return cards.flat();
+}
+
+// Scheduling state of a word that has never been studied. Stars and the vocabulary
+// book are the learner's own bookmarks and survive a reset.
+const RESET_PROGRESS: Partial<InsertUserProgress> = {
+  masteryLevel: 0,
+  timesStudied: 0,
+  timesCorrect: 0,
+  lastStudied: null,
+  nextReview: null,
+  interval: 0,
+  easeFactor: 2.5,
+  repetitions: 0,
+  stability: null,
+  difficulty: null,
+  cardState: "new",
+  learningStep: 0,
+  lapses: 0,
+  isLeech: false,
+  isSuspended: false,
+  buriedUntil: null,
+};
+
+/**
+ * Apply a per-user control to one card of a word, or to every card the user has of it
+ * when no template is given (at least the recognition card)
+ */
+async function updateCards(userId: string, wordId: string, updates: Partial<InsertUserProgress>, template?: CardTemplate): Promise<UserProgress[]> {
+  if (template) return [await storage.updateUserProgress(userId, wordId, updates, template)];
+  const templates = new Set<CardTemplate>(["recognition"]);
+  for (const progress of await storage.getWordProgress(userId, wordId)) {
+    templates.add(progress.template as CardTemplate);
+  }
+  return await Promise.all(Array.from(templates).map(t => storage.updateUserProgress(userId, wordId, updates, t)));
+}
+
+/**
+ * Stop (or resume) scheduling a word for a user until they change it again
+ */
+export async function setWordSuspended(userId: string, wordId: string, isSuspended: boolean, template?: CardTemplate): Promise<UserProgress[]> {
+  return await updateCards(userId, wordId, { isSuspended }, template);
+}
+
+/**
+ * Skip a word for the rest of the day; it is scheduled again from tomorrow
+ */
+export async function buryWord(userId: string, wordId: string, template?: CardTemplate): Promise<UserProgress[]> {
+  const tomorrow = new Date();
+  tomorrow.setHours(0, 0, 0, 0);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return await updateCards(userId, wordId, { buriedUntil: tomorrow }, template);
+}
+
+/**
+ * Forget all scheduling state of a word so it is learned again as a new word.
+ * The review log is kept.
+ */
+export async function resetWordProgress(userId: string, wordId: string, template?: CardTemplate): Promise<UserProgress[]> {
+  return await updateCards(userId, wordId, RESET_PROGRESS, template);
+}
+
+/**
+ * Undo the user's most recent review that can still be undone: put the word's progress
+ * back as it was before the review and mark the review undone in the log.
+ * Returns undefined when there is nothing left to undo.
+ */
+export async function undoLastReview(userId: string): Promise<UndoOutcome | undefined> {
+  const snapshot = await storage.getLatestReviewSnapshot(userId);
+  if (!snapshot) return undefined;
+
+  let restored: Partial<InsertUserProgress> = RESET_PROGRESS;
+  if (snapshot.progress) {
+    const { id, userId: _userId, wordId: _wordId, ...previous } = snapshot.progress;
+    // Timestamps come back from the JSON column as strings
+    restored = {
+      ...previous,
+      lastStudied: toDate(previous.lastStudied),
+      nextReview: toDate(previous.nextReview),
+      buriedUntil: toDate(previous.buriedUntil),
+    };
+  }
+
+  return await storage.transaction(async tx => {
+    const progress = await tx.updateUserProgress(userId, snapshot.wordId, restored, snapshot.template as CardTemplate);
+    await tx.markReviewLogUndone(snapshot.reviewLogId);
+    await tx.deleteReviewSnapshot(snapshot.id);
+    return { wordId: snapshot.wordId, progress };
+  });
+}
+
+function toDate(value: Date | string | null): Date | null {
+  return value === null ? null : new Date(value);
+}
@@ -0,0 +1,129 @@
+// Smoke tests of the API routes against the in-memory storage. Run with `npm test`,
+// which sets STORAGE=memory.
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import app from "./index.js";
+import { storage } from "./storage-instance.js";
+import type { StudySession, StudySessionDetail, User, Word } from "../shared/schema.js";
+
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  server = app.listen(0);
+  await once(server, "listening");
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+interface Client {
+  user: User;
+  request: <T = any>(method: string, path: string, body?: unknown) => Promise<{ status: number; body: T }>;
+}
+
+// Sign up a user; their requests carry the session cookie set on signup
+async function signUp(email: string): Promise<Client> {
+  let cookie = "";
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { cookie, ...(body === undefined ? {} : { "content-type": "application/json" }) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const [setCookie] = response.headers.getSetCookie();
+    if (setCookie) cookie = setCookie.split(";")[0];
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  };
+  const { status, body } = await request("POST", "/api/auth/signup", { email, password: "password123" });
+  assert.equal(status, 201);
+  return { user: body, request };
+}
+
+function wordData(word: string) {
+  return {
+    word,
+    phonetic: `/${word}/`,
+    partOfSpeech: "noun",
+    chineseDefinition: "测试",
+    englishExample: `A ${word} in a sentence.`,
+    chineseExample: "一个例句。",
+    category: "junior",
+    difficulty: 1,
+    frequency: 1,
+  };
+}
+
+let admin: Client;
+let learner: Client;
+
+test("the first user becomes an admin and later ones learners", async () => {
+  admin = await signUp("admin@example.com");
+  learner = await signUp("learner@example.com");
+  assert.equal(admin.user.role, "admin");
+  assert.equal(learner.user.role, "learner");
+});
+
+test("a learner's words are hidden from other users", async () => {
+  const { body: word } = await learner.request<Word>("POST", "/api/words", wordData("private"));
+  assert.equal(word.ownerId, learner.user.id);
+
+  assert.equal((await admin.request("GET", `/api/words/${word.id}`)).status, 404);
+  assert.equal((await admin.request("POST", `/api/words/${word.id}/star`)).status, 404);
+  assert.equal((await admin.request("POST", "/api/study-sessions", { sessionType: "study", items: [{ wordId: word.id }] })).status, 404);
+  assert.equal((await learner.request("POST", "/api/study-sessions", { sessionType: "study", items: [{ wordId: word.id }] })).status, 200);
+});
+
+test("undoing a review marks it undone and drops its session answer", async () => {
+  const { body: word } = await admin.request<Word>("POST", "/api/words", wordData("undo"));
+  const { body: session } = await admin.request<StudySession>("POST", "/api/study-sessions", { sessionType: "study", items: [{ wordId: word.id }] });
+
+  assert.equal((await admin.request("POST", "/api/reviews", { wordId: word.id, grade: 4, sessionId: session.id })).status, 200);
+  const { body: reviewed } = await admin.request<StudySessionDetail>("GET", `/api/study-sessions/${session.id}`);
+  assert.equal(reviewed.practiceResults.length, 1);
+
+  assert.equal((await admin.request("POST", "/api/reviews/undo")).status, 200);
+  const { body: undone } = await admin.request<StudySessionDetail>("GET", `/api/study-sessions/${session.id}`);
+  assert.equal(undone.practiceResults.length, 0);
+  assert.deepEqual(await storage.getReviewLogs(admin.user.id, word.id), []);
+  assert.equal((await admin.request("POST", "/api/reviews/undo")).status, 404);
+});
+
+test("answers are refused once a session is completed", async () => {
+  const { body: word } = await admin.request<Word>("POST", "/api/words", wordData("late"));
+  const { body: session } = await admin.request<StudySession>("POST", "/api/study-sessions", { sessionType: "practice", items: [{ wordId: word.id }] });
+  const answer = { sessionId: session.id, wordId: word.id, exerciseType: "spelling", isCorrect: true, correctAnswer: "late" };
+
+  assert.equal((await admin.request("POST", "/api/practice-results", answer)).status, 200);
+  const { body: completed } = await admin.request<StudySession>("POST", `/api/study-sessions/${session.id}/complete`);
+  assert.equal(completed.accuracy, 1);
+  assert.equal((await admin.request("POST", "/api/practice-results", { ...answer, isCorrect: false })).status, 409);
+  assert.equal((await admin.request("PUT", `/api/study-sessions/${session.id}`, { items: session.items, currentIndex: 1 })).status, 409);
+});
+
+test("purging a trashed word removes everything that belongs to it", async () => {
+  const { body: word } = await admin.request<Word>("POST", "/api/words", wordData("purge"));
+  await admin.request("POST", "/api/reviews", { wordId: word.id, grade: 4 });
+  assert.equal((await storage.getWordSenses([word.id])).length, 1);
+
+  assert.equal((await admin.request("DELETE", `/api/words/${word.id}`)).status, 204);
+  assert.equal((await admin.request("GET", `/api/words/${word.id}`)).status, 404);
+  assert.equal((await admin.request("DELETE", `/api/trash/words/${word.id}`)).status, 204);
+
+  assert.deepEqual(await storage.getWordProgress(admin.user.id, word.id), []);
+  assert.deepEqual(await storage.getReviewLogs(admin.user.id, word.id), []);
+  assert.deepEqual(await storage.getWordSenses([word.id]), []);
+  assert.equal(await storage.getLatestReviewSnapshot(admin.user.id), undefined);
+});
+
+test("activating a missing plan keeps the active one", async () => {
+  const { body: plan } = await admin.request("POST", "/api/study-plans", { name: "Plan", targetCategory: "junior", studyFocus: [], weeklySchedule: [] });
+  assert.equal((await admin.request("POST", "/api/study-plans/missing/activate")).status, 404);
+  assert.equal((await storage.getActiveStudyPlan(admin.user.id))?.id, plan.id);
+});
@@ -1,9 +1,18 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import multer from "multer";
 import { storage } from "./storage-instance.js";
-import { signupSchema, insertWordSchema, insertStudySessionSchema, insertPracticeResultSchema, insertStudyPlanSchema } from "../shared/schema.js";
-import type { User } from "../shared/schema.js";
-import passport, { hashPassword } from './auth.js';
+import { signupSchema, createWordSchema, updateWordSchema, startStudySessionSchema, studySessionQuerySchema, studySessionProgressSchema, practiceResultSubmissionSchema, insertStudyPlanSchema, updateStudyPlanSchema, insertCollectionSchema, updateCollectionSchema, forkDeckSchema, deckQuerySchema, reviewSubmissionSchema, progressFlagsSchema, userSettingsSchema, wordControlSchema, updateUserRoleSchema, wordSuggestionSchema } from "../shared/schema.js";
+import type { CardTemplate, User, UserRole, UserSettings, UserSummary, WordImportMode } from "../shared/schema.js";
+import { canEditWord, canManageCatalog, canSeeWord, hasRole } from "../shared/roles.js";
+import passport, { hashPassword, createAccount } from './auth.js';
+import { parseWordFile, importWords } from "./word-import.js";
+import { applyReview, undoLastReview, getReviewQueue, getNewWordQueue, setWordSuspended, buryWord, resetWordProgress } from "./reviews.js";
+import { getFreshSchedulerParams, toSchedulerParamsReport } from "./scheduler-optimizer.js";
+import { attachSenses, createWordWithSenses } from "./word-senses.js";
+import { editWord, suggestWordEdit, approveRevision, rejectRevision, revertWordRevision, listWordRevisions, listPendingRevisions } from "./word-revisions.js";
+import { listCollections, getCollectionWithWords, getCollectionWordList, canTargetCollection, getReadableCollection, listSubscribedCollections, listPublicDecks, getPublicDeck, subscribeToDeck, unsubscribeFromDeck, forkDeck } from "./collections.js";
+import { listTrash, getTrashedWord, getTrashedPlan, runTrashPurge } from "./trash.js";
+import { startStudySession, toStudySessionDetail, getResumableStudySession, listStudySessions, completeStudySession, recordPracticeResult } from "./study-sessions.js";
 
 import type { User as SchemaUser } from "../shared/schema.js";
 
@@ -23,6 +32,26 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
   res.status(401).json({ message: 'Not authenticated' });
 };
 
+// Middleware to check that the signed-in user has one of the roles
+const requireRole = (...roles: UserRole[]) => (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated() || !req.user) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  if (!hasRole(req.user as User, ...roles)) {
+    return res.status(403).json({ message: 'Not permitted' });
+  }
+  next();
+};
+
+// Middleware for scheduled jobs; Vercel Cron sends CRON_SECRET as a bearer token
+const requireCronSecret = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ message: 'Not authenticated' });
+  }
+  next();
+};
+
 
 // Configure multer for file uploads
 const upload = multer({
@@ -44,7 +73,7 @@ export function registerRoutes(app: Express) {
         return res.status(409).json({ message: 'User with this email already exists.' });
       }
       const hashedPassword = await hashPassword(password);
-      const user = await storage.createUser({ email, hashedPassword });
+      const user = await createAccount(email, hashedPassword);
       req.login(user, (err) => {
         if (err) return next(err);
         const { hashedPassword, ...userWithoutPassword } = user;
@@ -80,39 +109,129 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // ===== USER SETTINGS =====
+  const toUserSettings = ({ schedulerAlgorithm, leechThreshold, leechAction }: User): UserSettings => ({
+    schedulerAlgorithm: schedulerAlgorithm as UserSettings["schedulerAlgorithm"],
+    leechThreshold,
+    leechAction: leechAction as UserSettings["leechAction"],
+  });
+
+  app.get('/api/users/me/settings', isAuthenticated, (req, res) => {
+    res.json(toUserSettings(req.user as User));
+  });
+
+  app.patch('/api/users/me/settings', isAuthenticated, async (req, res) => {
+    try {
+      const result = userSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid settings', errors: result.error.issues });
+      }
+      // Switching to FSRS needs no data migration: words without FSRS state get one
+      // derived from their SM-2 interval and ease factor at their next review.
+      const user = await storage.updateUser((req.user as User).id, result.data);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      res.json(toUserSettings(user));
+    } catch (error) {
+      console.error("Failed to update settings:", error);
+      res.status(500).json({ message: 'Failed to update settings' });
+    }
+  });
+
+  // ===== USER ROLES (Admin) =====
+  app.get('/api/users', requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(({ id, email, role, createdAt }): UserSummary => ({ id, email, role, createdAt })));
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+      res.status(500).json({ message: 'Failed to fetch users' });
+    }
+  });
+
+  app.patch('/api/users/:id/role', requireRole("admin"), async (req, res) => {
+    try {
+      const result = updateUserRoleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid role', errors: result.error.issues });
+      }
+      // Keeps at least one admin around
+      if (req.params.id === (req.user as User).id) {
+        return res.status(400).json({ message: '不能修改自己的角色。' });
+      }
+      const existing = await storage.findUserById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const updated = await storage.updateUser(existing.id, { role: result.data.role });
+      if (!updated) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const { id, email, role, createdAt } = updated;
+      res.json({ id, email, role, createdAt } satisfies UserSummary);
+    } catch (error) {
+      console.error("Failed to update user role:", error);
+      res.status(500).json({ message: 'Failed to update user role' });
+    }
+  });
+
   // ===== WORDS (Public) =====
   app.get("/api/words", async (req, res) => {
     try {
-      const { category, search } = req.query;
+      const { category, search, collection } = req.query;
+      // Private words are listed only to their owner
+      const userId = req.isAuthenticated() && req.user ? (req.user as User).id : undefined;
       let words;
-      if (search) {
-        words = await storage.searchWords(search as string);
+      if (collection) {
+        // Collections are personal, so filtering by one needs a signed-in user
+        if (!req.isAuthenticated() || !req.user) {
+          return res.status(401).json({ message: 'Not authenticated' });
+        }
+        words = await getCollectionWordList((req.user as User).id, collection as string);
+        if (!words) {
+          return res.status(404).json({ message: "Collection not found" });
+        }
+      } else if (search) {
+        words = await storage.searchWords(search as string, userId);
       } else if (category) {
-        words = await storage.getWordsByCategory(category as string);
+        words = await storage.getWordsByCategory(category as string, userId);
       } else {
-        words = await storage.getAllWords();
+        words = await storage.getAllWords(userId);
       }
-      res.json(words);
+      const withSenses = await attachSenses(words);
+      // Signed-in users also get their own progress on each word, from its recognition card
+      if (req.isAuthenticated() && req.user) {
+        const progress = new Map((await storage.getAllUserProgress((req.user as User).id))
+          .filter(p => p.template === "recognition")
+          .map(p => [p.wordId, p]));
+        return res.json(withSenses.map(word => ({ ...word, progress: progress.get(word.id) })));
+      }
+      res.json(withSenses);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch words" });
     }
   });
 
-  // ===== WORD (Admin/Protected - for now, just authenticated) =====
+  // ===== WORD (Editors maintain the shared catalog; everyone can add private words) =====
   app.post("/api/words", isAuthenticated, async (req, res) => {
     try {
-      const result = insertWordSchema.safeParse(req.body);
+      const result = createWordSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid word data", errors: result.error.issues });
       }
+      const user = req.user as User;
+      const { isPrivate, ...data } = result.data;
 
       // Check for duplicate word
-      const existingWord = await storage.findWordByText(result.data.word);
+      const existingWord = await storage.findWordByText(data.word, user.id);
       if (existingWord) {
-        return res.status(409).json({ message: `单词 '${result.data.word}' 已存在。` });
+        return res.status(409).json({ message: `单词 '${data.word}' 已存在。` });
       }
 
-      const word = await storage.createWord(result.data);
+      // Learners' words are always private
+      const ownerId = canManageCatalog(user) && !isPrivate ? null : user.id;
+      const word = await createWordWithSenses(data, ownerId);
       res.json(word);
     } catch (error) {
       console.error("Error creating word:", error);
@@ -123,12 +242,19 @@ export function registerRoutes(app: Express) {
   app.put("/api/words/:id", isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
-      // For updates, we can use a partial schema
-      const result = insertWordSchema.partial().safeParse(req.body);
+      const result = updateWordSchema.safeParse(req.body);
       if (!result.success) {
         return res.status(400).json({ message: "Invalid word data", errors: result.error.issues });
       }
-      const updatedWord = await storage.updateWord(id, result.data);
+      const user = req.user as User;
+      const existing = await storage.getWord(id);
+      if (!existing || !canSeeWord(user.id, existing)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      if (!canEditWord(user, existing)) {
+        return res.status(403).json({ message: "Not permitted to edit this word" });
+      }
+      const updatedWord = await editWord(user.id, id, result.data);
       if (!updatedWord) {
         return res.status(404).json({ message: "Word not found" });
       }
@@ -142,6 +268,14 @@ export function registerRoutes(app: Express) {
   app.delete("/api/words/:id", isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
+      const user = req.user as User;
+      const existing = await storage.getWord(id);
+      if (!existing || !canSeeWord(user.id, existing)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      if (!canEditWord(user, existing)) {
+        return res.status(403).json({ message: "Not permitted to delete this word" });
+      }
       await storage.deleteWord(id);
       res.status(204).send(); // 204 No Content
     } catch (error) {
@@ -150,8 +284,126 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // ===== WORD REVISIONS (History for everyone; editors review learners' suggestions) =====
+  app.get("/api/words/:id/revisions", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const word = await storage.getWord(req.params.id);
+      if (!word || !canSeeWord(user.id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      res.json(await listWordRevisions(user, word));
+    } catch (error) {
+      console.error(`Failed to fetch revisions of word ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to fetch word revisions" });
+    }
+  });
+
+  app.post("/api/words/:id/revisions/:revisionId/revert", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const word = await storage.getWord(req.params.id);
+      if (!word || !canSeeWord(user.id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      if (!canEditWord(user, word)) {
+        return res.status(403).json({ message: "Not permitted to edit this word" });
+      }
+      const reverted = await revertWordRevision(user.id, word.id, req.params.revisionId);
+      if (!reverted) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(reverted);
+    } catch (error) {
+      console.error(`Failed to revert word ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to revert word" });
+    }
+  });
+
+  // Learners cannot edit shared words, but can suggest corrections of them
+  app.post("/api/words/:id/suggestions", isAuthenticated, async (req, res) => {
+    try {
+      const result = wordSuggestionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid word data", errors: result.error.issues });
+      }
+      const user = req.user as User;
+      const word = await storage.getWord(req.params.id);
+      if (!word || !canSeeWord(user.id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      if (canEditWord(user, word)) {
+        return res.status(400).json({ message: "你可以直接编辑这个单词。" });
+      }
+      const revision = await suggestWordEdit(user.id, word, result.data);
+      if (!revision) {
+        return res.status(400).json({ message: "建议的内容与当前单词相同。" });
+      }
+      res.status(201).json(revision);
+    } catch (error) {
+      console.error(`Failed to suggest an edit of word ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to submit suggestion" });
+    }
+  });
+
+  app.get("/api/revisions/pending", requireRole("admin", "editor"), async (req, res) => {
+    try {
+      res.json(await listPendingRevisions());
+    } catch (error) {
+      console.error("Failed to fetch pending revisions:", error);
+      res.status(500).json({ message: "Failed to fetch pending revisions" });
+    }
+  });
+
+  app.post("/api/revisions/:id/approve", requireRole("admin", "editor"), async (req, res) => {
+    try {
+      const revision = await approveRevision((req.user as User).id, req.params.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error(`Failed to approve revision ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to approve suggestion" });
+    }
+  });
+
+  app.post("/api/revisions/:id/reject", requireRole("admin", "editor"), async (req, res) => {
+    try {
+      const revision = await rejectRevision((req.user as User).id, req.params.id);
+      if (!revision) {
+        return res.status(404).json({ message: "Suggestion not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error(`Failed to reject revision ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to reject suggestion" });
+    }
+  });
+
   app.post("/api/words/import", isAuthenticated, upload.single('file'), async (req, res) => {
-    // ... (import logic remains the same for now)
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      const mode: WordImportMode = req.body?.mode === "merge" ? "merge" : "skip";
+
+      let records;
+      try {
+        records = parseWordFile(req.file);
+      } catch (error) {
+        return res.status(400).json({ message: error instanceof Error ? `Invalid file: ${error.message}` : "Invalid file" });
+      }
+      if (records.length === 0) {
+        return res.status(400).json({ message: "The file contains no words" });
+      }
+
+      const report = await importWords(records, mode, req.user as User);
+      res.json(report);
+    } catch (error) {
+      console.error("Error importing words:", error);
+      res.status(500).json({ message: "Failed to import words" });
+    }
   });
 
   // ===== USER-SPECIFIC DATA (Authenticated) =====
@@ -159,31 +411,34 @@ export function registerRoutes(app: Express) {
   app.get("/api/words/:id", isAuthenticated, async (req, res) => {
     try {
       const word = await storage.getWord(req.params.id);
-      if (!word) {
+      if (!word || !canSeeWord((req.user as User).id, word)) {
         return res.status(404).json({ message: "Word not found" });
       }
-      const progress = await storage.getUserProgress((req.user as User).id, req.params.id);
-      res.json({ ...word, progress });
+      const [[withSenses], progress] = await Promise.all([
+        attachSenses([word]),
+        storage.getUserProgress((req.user as User).id, req.params.id),
+      ]);
+      res.json({ ...withSenses, progress });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch word details" });
     }
   });
 
+  // Only non-scheduling flags can be set directly; schedules are written by POST /api/reviews
   app.post("/api/progress/:wordId", isAuthenticated, async (req, res) => {
     try {
       const { wordId } = req.params;
-      const progressData = req.body;
-      console.log("Progress data received by backend:", progressData);
-
-      // Convert date strings back to Date objects for Drizzle
-      if (progressData.nextReview && typeof progressData.nextReview === 'string') {
-        progressData.nextReview = new Date(progressData.nextReview);
+      const result = progressFlagsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid progress data", errors: result.error.issues });
       }
-      if (progressData.lastStudied && typeof progressData.lastStudied === 'string') {
-        progressData.lastStudied = new Date(progressData.lastStudied);
+
+      const word = await storage.getWord(wordId);
+      if (!word || !canSeeWord((req.user as User).id, word)) {
+        return res.status(404).json({ message: "Word not found" });
       }
 
-      const updatedProgress = await storage.updateUserProgress((req.user as User).id, wordId, progressData);
+      const updatedProgress = await storage.updateUserProgress((req.user as User).id, word.id, result.data);
       res.json(updatedProgress);
     } catch (error) {
       console.error("Failed to update progress:", error);
@@ -191,11 +446,53 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  app.post("/api/reviews", isAuthenticated, async (req, res) => {
+    try {
+      const result = reviewSubmissionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid review data", errors: result.error.issues });
+      }
+      const word = await storage.getWord(result.data.wordId);
+      if (!word || !canSeeWord((req.user as User).id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+
+      const outcome = await applyReview((req.user as User).id, result.data);
+      res.json(outcome);
+    } catch (error) {
+      console.error("Failed to record review:", error);
+      res.status(500).json({ message: "Failed to record review" });
+    }
+  });
+
+  app.post("/api/reviews/undo", isAuthenticated, async (req, res) => {
+    try {
+      const outcome = await undoLastReview((req.user as User).id);
+      if (!outcome) {
+        return res.status(404).json({ message: "No review to undo" });
+      }
+      res.json(outcome);
+    } catch (error) {
+      console.error("Failed to undo review:", error);
+      res.status(500).json({ message: "Failed to undo review" });
+    }
+  });
+
+  app.get("/api/scheduler/params", isAuthenticated, async (req, res) => {
+    try {
+      const params = await getFreshSchedulerParams((req.user as User).id);
+      res.json(toSchedulerParamsReport(params));
+    } catch (error) {
+      console.error("Failed to fetch scheduler parameters:", error);
+      res.status(500).json({ message: "Failed to fetch scheduler parameters" });
+    }
+  });
+
   app.get("/api/words-for-review", isAuthenticated, async (req, res) => {
     try {
-      const words = await storage.getWordsForReview((req.user as User).id);
+      const words = await getReviewQueue((req.user as User).id);
       console.log("Words for review returned:", words.length);
-      res.json(words);
+      res.json(await attachSenses(words));
     } catch (error) {
       console.error("Failed to fetch review words:", error);
       res.status(500).json({ message: "Failed to fetch review words" });
@@ -204,18 +501,8 @@ export function registerRoutes(app: Express) {
 
   app.get("/api/new-words-for-plan", isAuthenticated, async (req, res) => {
     try {
-      const userId = (req.user as User).id;
-      const activePlan = await storage.getActiveStudyPlan(userId);
-
-      if (!activePlan) {
-        console.log("No active plan found for new words.");
-        return res.json([]); // No active plan, return no new words
-      }
-
-      const { targetCategory, dailyWordCount } = activePlan;
-      const words = await storage.getNewWordsForPlan(userId, targetCategory, dailyWordCount);
-      console.log(`New words for plan (${targetCategory}, ${dailyWordCount}) returned:`, words.length);
-      res.json(words);
+      // Empty without an active plan, or once the plan's new words for today are introduced
+      res.json(await getNewWordQueue((req.user as User).id));
     } catch (error) {
       console.error("Failed to fetch new words for plan:", error);
       res.status(500).json({ message: "Failed to fetch new words for plan" });
@@ -224,30 +511,82 @@ export function registerRoutes(app: Express) {
 
   app.post("/api/study-sessions", isAuthenticated, async (req, res) => {
     try {
-      const result = insertStudySessionSchema.safeParse(req.body);
+      const result = startStudySessionSchema.safeParse(req.body);
       if (!result.success) {
-        return res.status(400).json({ message: "Invalid session data" });
+        return res.status(400).json({ message: "Invalid session data", errors: result.error.issues });
+      }
+      const session = await startStudySession((req.user as User).id, result.data);
+      if (!session) {
+        return res.status(404).json({ message: "Word not found" });
       }
-      const session = await storage.createStudySession({ ...result.data, userId: (req.user as User).id });
       res.json(session);
     } catch (error) {
       res.status(500).json({ message: "Failed to create study session" });
     }
   });
 
+  // Past sessions, newest first, optionally filtered by type and date range
+  app.get("/api/study-sessions", isAuthenticated, async (req, res) => {
+    try {
+      const result = studySessionQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid query", errors: result.error.issues });
+      }
+      res.json(await listStudySessions((req.user as User).id, result.data));
+    } catch (error) {
+      console.error("Failed to fetch study sessions:", error);
+      res.status(500).json({ message: "Failed to fetch study sessions" });
+    }
+  });
+
+  // Latest unfinished session of the given type(s) to resume, or null
+  app.get("/api/study-sessions/active", isAuthenticated, async (req, res) => {
+    try {
+      const types = ([] as unknown[]).concat(req.query.type ?? []).map(String);
+      if (types.length === 0) {
+        return res.status(400).json({ message: "Session type is required" });
+      }
+      const session = await getResumableStudySession((req.user as User).id, types);
+      res.json(session ?? null);
+    } catch (error) {
+      console.error("Failed to fetch active study session:", error);
+      res.status(500).json({ message: "Failed to fetch active study session" });
+    }
+  });
+
+  app.get("/api/study-sessions/:sessionId", isAuthenticated, async (req, res) => {
+    try {
+      const session = await storage.getStudySession((req.user as User).id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Study session not found" });
+      }
+      res.json(await toStudySessionDetail(session));
+    } catch (error) {
+      console.error("Failed to fetch study session:", error);
+      res.status(500).json({ message: "Failed to fetch study session" });
+    }
+  });
+
   app.put("/api/study-sessions/:sessionId", isAuthenticated, async (req, res) => {
     try {
       const { sessionId } = req.params;
-      const updateData = req.body;
       const userId = (req.user as User).id;
+      const result = studySessionProgressSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid session progress", errors: result.error.issues });
+      }
 
       // 验证会话属于当前用户
       const session = await storage.getStudySession(userId, sessionId);
       if (!session) {
         return res.status(404).json({ message: "Study session not found" });
       }
+      // Late saves from the client must not overwrite a finished session
+      if (session.status === "completed") {
+        return res.status(409).json({ message: "Study session is already completed" });
+      }
 
-      const updatedSession = await storage.updateStudySession(sessionId, updateData);
+      const updatedSession = await storage.updateStudySession(sessionId, result.data);
       res.json(updatedSession);
     } catch (error) {
       console.error("Failed to update study session:", error);
@@ -255,15 +594,43 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Finish a session; its statistics are computed from the answers recorded for it
+  app.post("/api/study-sessions/:sessionId/complete", isAuthenticated, async (req, res) => {
+    try {
+      const session = await completeStudySession((req.user as User).id, req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Study session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Failed to complete study session:", error);
+      res.status(500).json({ message: "Failed to complete study session" });
+    }
+  });
+
   app.post("/api/practice-results", isAuthenticated, async (req, res) => {
     try {
-      const result = insertPracticeResultSchema.safeParse(req.body);
+      const result = practiceResultSubmissionSchema.safeParse(req.body);
       if (!result.success) {
-        return res.status(400).json({ message: "Invalid practice result data" });
+        return res.status(400).json({ message: "Invalid practice result data", errors: result.error.issues });
+      }
+      const userId = (req.user as User).id;
+      const session = await storage.getStudySession(userId, result.data.sessionId);
+      if (!session) {
+        return res.status(404).json({ message: "Study session not found" });
+      }
+      const word = await storage.getWord(result.data.wordId);
+      if (!word || !canSeeWord(userId, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+
+      const practiceResult = await recordPracticeResult(session, result.data);
+      if (!practiceResult) {
+        return res.status(409).json({ message: "Study session is already completed" });
       }
-      const practiceResult = await storage.savePracticeResult({ ...result.data, userId: (req.user as User).id });
       res.json(practiceResult);
     } catch (error) {
+      console.error("Failed to save practice result:", error);
       res.status(500).json({ message: "Failed to save practice result" });
     }
   });
@@ -290,6 +657,9 @@ export function registerRoutes(app: Express) {
         console.error("Study plan validation failed:", result.error.issues);
         return res.status(400).json({ message: "Invalid study plan data", errors: result.error.issues });
       }
+      if (!(await canTargetCollection(userId, result.data.targetCollectionId))) {
+        return res.status(400).json({ message: "Collection not found" });
+      }
       const plan = await storage.createStudyPlan(result.data);
       res.json(plan);
     } catch (error) {
@@ -310,9 +680,17 @@ export function registerRoutes(app: Express) {
   app.patch("/api/study-plans/:id", isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
-      // We don't use a Zod schema here for partial updates, but in a real app you would.
-      const updates = req.body;
-      const updatedPlan = await storage.updateStudyPlan((req.user as User).id, id, updates);
+      const result = updateStudyPlanSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid study plan data", errors: result.error.issues });
+      }
+      if (!(await canTargetCollection((req.user as User).id, result.data.targetCollectionId))) {
+        return res.status(400).json({ message: "Collection not found" });
+      }
+      const updatedPlan = await storage.updateStudyPlan((req.user as User).id, id, result.data);
+      if (!updatedPlan) {
+        return res.status(404).json({ message: "Study plan not found" });
+      }
       res.json(updatedPlan);
     } catch (error) {
       res.status(500).json({ message: "Failed to update study plan" });
@@ -333,12 +711,274 @@ export function registerRoutes(app: Express) {
     try {
       const { id } = req.params;
       const plan = await storage.activateStudyPlan((req.user as User).id, id);
+      if (!plan) {
+        return res.status(404).json({ message: "Study plan not found" });
+      }
       res.json(plan);
     } catch (error) {
       res.status(500).json({ message: "Failed to activate study plan" });
     }
   });
 
+  // ===== TRASH (Deleted words and plans, restorable within the retention window) =====
+
+  app.get("/api/trash", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await listTrash(req.user as User));
+    } catch (error) {
+      console.error("Failed to fetch trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/words/:id/restore", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const word = await getTrashedWord(user, req.params.id);
+      if (!word) {
+        return res.status(404).json({ message: "Word not found in trash" });
+      }
+      if (await storage.findWordByText(word.word, user.id)) {
+        return res.status(409).json({ message: `单词 '${word.word}' 已存在，无法恢复。` });
+      }
+      res.json(await storage.restoreWord(word.id));
+    } catch (error) {
+      console.error(`Error restoring word ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to restore word" });
+    }
+  });
+
+  app.delete("/api/trash/words/:id", isAuthenticated, async (req, res) => {
+    try {
+      const word = await getTrashedWord(req.user as User, req.params.id);
+      if (!word) {
+        return res.status(404).json({ message: "Word not found in trash" });
+      }
+      await storage.purgeWord(word.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error(`Error purging word ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to purge word" });
+    }
+  });
+
+  app.post("/api/trash/plans/:id/restore", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const plan = await getTrashedPlan(user, req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Study plan not found in trash" });
+      }
+      res.json(await storage.restoreStudyPlan(user.id, plan.id));
+    } catch (error) {
+      console.error(`Error restoring study plan ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to restore study plan" });
+    }
+  });
+
+  app.delete("/api/trash/plans/:id", isAuthenticated, async (req, res) => {
+    try {
+      const user = req.user as User;
+      const plan = await getTrashedPlan(user, req.params.id);
+      if (!plan) {
+        return res.status(404).json({ message: "Study plan not found in trash" });
+      }
+      await storage.purgeStudyPlan(user.id, plan.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error(`Error purging study plan ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to purge study plan" });
+    }
+  });
+
+  // Expired items are purged on a schedule by Vercel Cron, or on demand by an admin
+  const purgeTrash = async (req: Request, res: Response) => {
+    try {
+      res.json(await runTrashPurge());
+    } catch (error) {
+      console.error("Failed to purge trash:", error);
+      res.status(500).json({ message: "Failed to purge trash" });
+    }
+  };
+  app.get("/api/cron/trash-purge", requireCronSecret, purgeTrash);
+  app.post("/api/trash/purge", requireRole("admin"), purgeTrash);
+
+  // ===== COLLECTIONS =====
+
+  app.get("/api/collections", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await listCollections((req.user as User).id));
+    } catch (error) {
+      console.error("Failed to fetch collections:", error);
+      res.status(500).json({ message: "Failed to fetch collections" });
+    }
+  });
+
+  app.post("/api/collections", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as User).id;
+      const result = insertCollectionSchema.safeParse({ ...req.body, userId });
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid collection data", errors: result.error.issues });
+      }
+      const existing = await storage.getCollections(userId);
+      if (existing.some(c => c.name === result.data.name)) {
+        return res.status(409).json({ message: `合集 '${result.data.name}' 已存在。` });
+      }
+      const collection = await storage.createCollection(result.data);
+      res.json({ ...collection, wordIds: [] });
+    } catch (error) {
+      console.error("Failed to create collection:", error);
+      res.status(500).json({ message: "Failed to create collection" });
+    }
+  });
+
+  app.patch("/api/collections/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as User).id;
+      const result = updateCollectionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid collection data", errors: result.error.issues });
+      }
+      const existing = await storage.getCollections(userId);
+      if (result.data.name && existing.some(c => c.id !== req.params.id && c.name === result.data.name)) {
+        return res.status(409).json({ message: `合集 '${result.data.name}' 已存在。` });
+      }
+      const updated = await storage.updateCollection(userId, req.params.id, result.data);
+      if (!updated) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      res.json(await getCollectionWithWords(userId, updated.id));
+    } catch (error) {
+      console.error("Failed to update collection:", error);
+      res.status(500).json({ message: "Failed to update collection" });
+    }
+  });
+
+  app.delete("/api/collections/:id", isAuthenticated, async (req, res) => {
+    try {
+      await storage.deleteCollection((req.user as User).id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Failed to delete collection:", error);
+      res.status(500).json({ message: "Failed to delete collection" });
+    }
+  });
+
+  // Adding and removing a word answer with the updated collection
+  app.put("/api/collections/:id/words/:wordId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as User).id;
+      const [collection, word] = await Promise.all([
+        storage.getCollection(userId, req.params.id),
+        storage.getWord(req.params.wordId),
+      ]);
+      if (!collection || !word || !canSeeWord(userId, word)) {
+        return res.status(404).json({ message: collection ? "Word not found" : "Collection not found" });
+      }
+      await storage.addWordToCollection(collection.id, word.id);
+      res.json(await getCollectionWithWords(userId, collection.id));
+    } catch (error) {
+      console.error("Failed to add word to collection:", error);
+      res.status(500).json({ message: "Failed to add word to collection" });
+    }
+  });
+
+  app.delete("/api/collections/:id/words/:wordId", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as User).id;
+      const collection = await storage.getCollection(userId, req.params.id);
+      if (!collection) {
+        return res.status(404).json({ message: "Collection not found" });
+      }
+      await storage.removeWordFromCollection(collection.id, req.params.wordId);
+      res.json(await getCollectionWithWords(userId, collection.id));
+    } catch (error) {
+      console.error("Failed to remove word from collection:", error);
+      res.status(500).json({ message: "Failed to remove word from collection" });
+    }
+  });
+
+  // ===== PUBLIC DECKS =====
+
+  app.get("/api/decks", isAuthenticated, async (req, res) => {
+    try {
+      const result = deckQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid deck query", errors: result.error.issues });
+      }
+      res.json(await listPublicDecks((req.user as User).id, result.data.search || undefined));
+    } catch (error) {
+      console.error("Failed to fetch decks:", error);
+      res.status(500).json({ message: "Failed to fetch decks" });
+    }
+  });
+
+  app.get("/api/decks/subscribed", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await listSubscribedCollections((req.user as User).id));
+    } catch (error) {
+      console.error("Failed to fetch subscribed decks:", error);
+      res.status(500).json({ message: "Failed to fetch subscribed decks" });
+    }
+  });
+
+  app.get("/api/decks/:id", isAuthenticated, async (req, res) => {
+    try {
+      const deck = await getPublicDeck((req.user as User).id, req.params.id);
+      if (!deck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+      res.json(deck);
+    } catch (error) {
+      console.error(`Failed to fetch deck ${req.params.id}:`, error);
+      res.status(500).json({ message: "Failed to fetch deck" });
+    }
+  });
+
+  app.post("/api/decks/:id/subscribe", isAuthenticated, async (req, res) => {
+    try {
+      if (!(await subscribeToDeck((req.user as User).id, req.params.id))) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Failed to subscribe to deck:", error);
+      res.status(500).json({ message: "Failed to subscribe to deck" });
+    }
+  });
+
+  app.delete("/api/decks/:id/subscribe", isAuthenticated, async (req, res) => {
+    try {
+      await unsubscribeFromDeck((req.user as User).id, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Failed to unsubscribe from deck:", error);
+      res.status(500).json({ message: "Failed to unsubscribe from deck" });
+    }
+  });
+
+  app.post("/api/decks/:id/fork", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as User).id;
+      const result = forkDeckSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid fork data", errors: result.error.issues });
+      }
+      const deck = await getReadableCollection(userId, req.params.id);
+      if (!deck) {
+        return res.status(404).json({ message: "Deck not found" });
+      }
+      const name = result.data.name ?? deck.name;
+      if ((await storage.getCollections(userId)).some(c => c.name === name)) {
+        return res.status(409).json({ message: `合集 '${name}' 已存在。` });
+      }
+      res.json(await forkDeck(userId, deck.id, name));
+    } catch (error) {
+      console.error("Failed to fork deck:", error);
+      res.status(500).json({ message: "Failed to fork deck" });
+    }
+  });
 
   // ===== DASHBOARD =====
   app.get("/api/dashboard/stats", isAuthenticated, async (req, res) => {
@@ -360,6 +1000,16 @@ export function registerRoutes(app: Express) {
     }
   });
 
+  // Words forgotten so often they were flagged as leeches, most lapses first
+  app.get("/api/leeches", isAuthenticated, async (req, res) => {
+    try {
+      const words = await storage.getLeeches((req.user as User).id);
+      res.json(words);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch leeches" });
+    }
+  });
+
   app.get("/api/starred-words", isAuthenticated, async (req, res) => {
     try {
       const words = await storage.getStarredWords((req.user as User).id);
@@ -371,16 +1021,48 @@ export function registerRoutes(app: Express) {
 
   app.post("/api/words/:id/star", isAuthenticated, async (req, res) => {
     try {
-      await storage.toggleWordStar((req.user as User).id, req.params.id);
+      const word = await storage.getWord(req.params.id);
+      if (!word || !canSeeWord((req.user as User).id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      await storage.toggleWordStar((req.user as User).id, word.id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to toggle star" });
     }
   });
 
+  // Per-user scheduling controls; the word itself is left untouched
+  const wordControl = (action: (userId: string, wordId: string, template?: CardTemplate) => Promise<unknown>, failureMessage: string) =>
+    async (req: Request, res: Response) => {
+      try {
+        const result = wordControlSchema.safeParse(req.body ?? {});
+        if (!result.success) {
+          return res.status(400).json({ message: "Invalid word control data", errors: result.error.issues });
+        }
+        const word = await storage.getWord(req.params.id);
+        if (!word || !canSeeWord((req.user as User).id, word)) {
+          return res.status(404).json({ message: "Word not found" });
+        }
+        res.json(await action((req.user as User).id, word.id, result.data.template));
+      } catch (error) {
+        console.error(`${failureMessage}:`, error);
+        res.status(500).json({ message: failureMessage });
+      }
+    };
+
+  app.post("/api/words/:id/suspend", isAuthenticated, wordControl((userId, wordId, template) => setWordSuspended(userId, wordId, true, template), "Failed to suspend word"));
+  app.post("/api/words/:id/unsuspend", isAuthenticated, wordControl((userId, wordId, template) => setWordSuspended(userId, wordId, false, template), "Failed to unsuspend word"));
+  app.post("/api/words/:id/bury", isAuthenticated, wordControl(buryWord, "Failed to bury word"));
+  app.post("/api/words/:id/reset", isAuthenticated, wordControl(resetWordProgress, "Failed to reset word progress"));
+
   app.post("/api/words/:id/add-to-vocabulary", isAuthenticated, async (req, res) => {
     try {
-      await storage.addToVocabularyBook((req.user as User).id, req.params.id);
+      const word = await storage.getWord(req.params.id);
+      if (!word || !canSeeWord((req.user as User).id, word)) {
+        return res.status(404).json({ message: "Word not found" });
+      }
+      await storage.addToVocabularyBook((req.user as User).id, word.id);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ message: "Failed to add to vocabulary book" });
@@ -0,0 +1,176 @@
+import { storage } from "./storage-instance.js";
+import { DEFAULT_SM2_PARAMETERS, type Sm2Parameters } from "../shared/spaced-repetition.js";
+import type { ReviewLog, SchedulerParams, SchedulerParamsReport } from "../shared/schema.js";
+
+// Share of reviews the personalised parameters aim to have recalled, unless the
+// active study plan sets its own desired retention
+const DEFAULT_TARGET_RETENTION = 0.9;
+// Recall events needed before anything is personalised
+const MIN_SAMPLE_SIZE = 20;
+// Recall events needed before a single ease parameter is adjusted
+const MIN_GROUP_SIZE = 10;
+// Fitted parameters never move further than this factor from the SM-2 defaults
+const MAX_ADJUSTMENT = 2;
+// Parameters older than this are refitted by the job or on request
+const REFIT_AFTER_MS = 24 * 60 * 60 * 1000;
+const JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+const PASSING_GRADE = 3;
+
+function recallRate(outcomes: boolean[]): number {
+  return outcomes.filter(Boolean).length / outcomes.length;
+}
+
+/**
+ * Factor by which intervals can be scaled so that the observed retention moves to
+ * the target, assuming exponential forgetting: a retention r at interval I becomes
+ * r^m at interval m * I, so m = ln(target) / ln(r).
+ */
+function retentionAdjustment(retention: number, targetRetention: number): number {
+  if (retention >= 0.999) return MAX_ADJUSTMENT;
+  if (retention <= 0.001) return 1 / MAX_ADJUSTMENT;
+  const factor = Math.log(targetRetention) / Math.log(retention);
+  return Math.min(MAX_ADJUSTMENT, Math.max(1 / MAX_ADJUSTMENT, factor));
+}
+
+/**
+ * Outcome of each review that followed an earlier review of the same card,
+ * grouped by the grade given at that earlier review.
+ */
+function outcomesByPreviousGrade(logs: ReviewLog[]): Map<number, boolean[]> {
+  const byCard = new Map<string, ReviewLog[]>();
+  for (const log of logs) {
+    const card = `${log.wordId}:${log.template}`;
+    const cardLogs = byCard.get(card);
+    if (cardLogs) cardLogs.push(log);
+    else byCard.set(card, [log]);
+  }
+
+  const outcomes = new Map<number, boolean[]>();
+  for (const wordLogs of Array.from(byCard.values())) {
+    wordLogs.sort((a, b) => a.reviewedAt.getTime() - b.reviewedAt.getTime());
+    for (let i = 1; i < wordLogs.length; i++) {
+      const previousGrade = wordLogs[i - 1].grade;
+      const recalled = wordLogs[i].grade >= PASSING_GRADE;
+      const gradeOutcomes = outcomes.get(previousGrade);
+      if (gradeOutcomes) gradeOutcomes.push(recalled);
+      else outcomes.set(previousGrade, [recalled]);
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Fit SM-2 parameters for a user from their review log and practice results, and store them.
+ * Only recall events count: reviews of words in review and practice answers. Answers given
+ * through a review are already in the log, so only practice answers without one are added.
+ */
+export async function fitSchedulerParams(userId: string): Promise<SchedulerParams> {
+  const [allLogs, practiceResults, plan] = await Promise.all([
+    storage.getReviewLogs(userId),
+    storage.getUserPracticeResults(userId),
+    storage.getActiveStudyPlan(userId),
+  ]);
+  const targetRetention = plan?.desiredRetention ?? DEFAULT_TARGET_RETENTION;
+  // Intraday (re)learning steps say nothing about recall over days
+  const logs = allLogs.filter(l => l.cardState === "review");
+
+  const recallOutcomes = [
+    ...logs.filter(l => l.previousInterval > 0).map(l => l.grade >= PASSING_GRADE),
+    ...practiceResults.filter(r => r.reviewLogId === null).map(r => r.isCorrect),
+  ];
+  const sampleSize = recallOutcomes.length;
+  const observedRetention = sampleSize > 0 ? recallRate(recallOutcomes) : null;
+
+  const params: Sm2Parameters = { ...DEFAULT_SM2_PARAMETERS };
+  if (observedRetention !== null && sampleSize >= MIN_SAMPLE_SIZE) {
+    params.intervalModifier = retentionAdjustment(observedRetention, targetRetention);
+
+    const byGrade = outcomesByPreviousGrade(logs);
+    // Words answered perfectly: grow ease faster if they are still recalled more often than targeted
+    const afterPerfect = byGrade.get(5) ?? [];
+    if (afterPerfect.length >= MIN_GROUP_SIZE) {
+      params.easeBonus = DEFAULT_SM2_PARAMETERS.easeBonus * retentionAdjustment(recallRate(afterPerfect), targetRetention);
+    }
+    // Words answered with hesitation: penalise ease harder if they are forgotten more often than targeted
+    const afterHesitant = [...(byGrade.get(3) ?? []), ...(byGrade.get(4) ?? [])];
+    if (afterHesitant.length >= MIN_GROUP_SIZE) {
+      const penaltyScale = 1 / retentionAdjustment(recallRate(afterHesitant), targetRetention);
+      params.easePenaltyLinear = DEFAULT_SM2_PARAMETERS.easePenaltyLinear * penaltyScale;
+      params.easePenaltyQuadratic = DEFAULT_SM2_PARAMETERS.easePenaltyQuadratic * penaltyScale;
+    }
+  }
+
+  return await storage.saveSchedulerParams({
+    userId,
+    ...params,
+    targetRetention,
+    sampleSize,
+    observedRetention,
+    // Retention expected once intervals are scaled by the modifier (see retentionAdjustment)
+    estimatedRetention: observedRetention === null ? null : Math.pow(observedRetention, params.intervalModifier),
+  });
+}
+
+/**
+ * Stored parameters for a user, refitted first if missing, out of date, or fitted
+ * for a retention other than the active plan's.
+ */
+export async function getFreshSchedulerParams(userId: string): Promise<SchedulerParams> {
+  const [existing, plan] = await Promise.all([
+    storage.getSchedulerParams(userId),
+    storage.getActiveStudyPlan(userId),
+  ]);
+  const isStale = !existing
+    || Date.now() - existing.fittedAt.getTime() > REFIT_AFTER_MS
+    || existing.targetRetention !== (plan?.desiredRetention ?? DEFAULT_TARGET_RETENTION);
+  return isStale ? await fitSchedulerParams(userId) : existing;
+}
+
+/**
+ * SM-2 parameters to schedule with. Uses whatever is stored, without refitting,
+ * so grading a word never waits on a fit.
+ */
+export async function getSm2Parameters(userId: string): Promise<Sm2Parameters> {
+  const stored = await storage.getSchedulerParams(userId);
+  if (!stored) return DEFAULT_SM2_PARAMETERS;
+  const { easeBonus, easePenaltyLinear, easePenaltyQuadratic, intervalModifier } = stored;
+  return { easeBonus, easePenaltyLinear, easePenaltyQuadratic, intervalModifier };
+}
+
+export function toSchedulerParamsReport(params: SchedulerParams): SchedulerParamsReport {
+  const { easeBonus, easePenaltyLinear, easePenaltyQuadratic, intervalModifier } = params;
+  return {
+    params: { easeBonus, easePenaltyLinear, easePenaltyQuadratic, intervalModifier },
+    isDefault: params.sampleSize < MIN_SAMPLE_SIZE,
+    sampleSize: params.sampleSize,
+    targetRetention: params.targetRetention,
+    observedRetention: params.observedRetention,
+    estimatedRetention: params.estimatedRetention,
+    fittedAt: params.fittedAt.toISOString(),
+  };
+}
+
+/**
+ * Refit the parameters of every user whose fit is missing or out of date.
+ */
+export async function runSchedulerOptimizer(): Promise<void> {
+  const users = await storage.getAllUsers();
+  for (const user of users) {
+    try {
+      await getFreshSchedulerParams(user.id);
+    } catch (error) {
+      console.error(`Failed to fit scheduler parameters for user ${user.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Run the optimizer periodically in long-running servers. Serverless deployments
+ * rely on GET /api/scheduler/params refitting stale parameters instead.
+ */
+export function startSchedulerOptimizerJob(): NodeJS.Timeout {
+  return setInterval(() => {
+    runSchedulerOptimizer().catch(error => console.error("Scheduler optimizer job failed:", error));
+  }, JOB_INTERVAL_MS);
+}
@@ -1,5 +1,13 @@
-import { DrizzleStorage } from "./drizzle-storage.js";
+import type { IStorage } from "./storage.js";
+import { MemStorage } from "./mem-storage.js";
 
 // This file is responsible for creating and exporting the singleton instance of our storage.
 // This avoids circular dependencies between storage, drizzle-storage, and other files.
-export const storage = new DrizzleStorage();
+//
+// Set STORAGE=memory to run without Postgres (tests, offline development). The Drizzle
+// storage is imported lazily because api/db.ts requires DATABASE_URL as soon as it loads.
+export const usesMemoryStorage = process.env.STORAGE === "memory";
+
+export const storage: IStorage = usesMemoryStorage
+  ? new MemStorage()
+  : new (await import("./drizzle-storage.js")).DrizzleStorage();
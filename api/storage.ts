@@ -1,46 +1,153 @@
 import type { DrizzleStorage } from "./drizzle-storage.js";
-import type { User, Word, UserProgress, StudySession, PracticeResult, StudyPlan, InsertUser, InsertWord, InsertUserProgress, InsertStudySession, InsertPracticeResult, InsertStudyPlan, WordWithProgress, DashboardStats } from "../shared/schema.js";
+import type { User, Word, UserProgress, StudySession, PracticeResult, StudyPlan, InsertUser, InsertWord, InsertUserProgress, InsertStudySession, InsertPracticeResult, InsertStudyPlan, ReviewLog, InsertReviewLog, SchedulerParams, InsertSchedulerParams, ReviewSnapshot, InsertReviewSnapshot, WordWithProgress, DashboardStats, NewWordOrder, CardTemplate, WordSense, WordSenseInput, WordExample, WordExampleInput, Collection, CollectionWord, InsertCollection, CollectionSubscription, WordRevision, InsertWordRevision } from "../shared/schema.js";
+
+export interface TransactionOptions {
+  isolationLevel?: "read committed" | "serializable";
+}
 
 // All type imports are used here to define the interface for our storage layer.
 // This ensures that both MemStorage (for testing) and DrizzleStorage (for production)
 // have the same methods.
 export interface IStorage {
+  // Run storage calls that must all be saved or none at all. Serializable transactions
+  // fail rather than commit when a concurrent one would have changed what they read.
+  transaction<T>(work: (storage: IStorage) => Promise<T>, options?: TransactionOptions): Promise<T>;
+
   // User management
   findUserByEmail(email: string): Promise<User | undefined>;
   findUserById(id: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
 
-  // Word management
-  getAllWords(): Promise<Word[]>;
-  getWordsByCategory(category: string): Promise<Word[]>;
+  // Word management. Listings hold the shared catalog, plus the private words of the
+  // user if one is given; getWord finds any word by id. Words in the trash are left
+  // out of these and of every progress-based listing.
+  getAllWords(userId?: string): Promise<Word[]>;
+  getWordsByCategory(category: string, userId?: string): Promise<Word[]>;
   getWord(id: string): Promise<Word | undefined>;
-  searchWords(query: string): Promise<Word[]>;
-  findWordByText(word: string): Promise<Word | undefined>;
+  // The words with the given ids that are listed for the user
+  getWordsByIds(ids: string[], userId?: string): Promise<Word[]>;
+  searchWords(query: string, userId?: string): Promise<Word[]>;
+  findWordByText(word: string, userId?: string): Promise<Word | undefined>;
   createWord(word: InsertWord): Promise<Word>;
-  updateWord(id: string, word: Partial<InsertWord>): Promise<Word>;
+  updateWord(id: string, word: Partial<InsertWord>): Promise<Word | undefined>;
+  // Moves the word to the trash; its progress and history are kept until it is purged
   deleteWord(id: string): Promise<void>;
+  // Words in the trash, shared ones plus the user's private ones, most recently deleted first
+  getDeletedWords(userId: string): Promise<Word[]>;
+  restoreWord(id: string): Promise<Word | undefined>;
+  // Deletes a word for good, with everything that belongs to it
+  purgeWord(id: string): Promise<void>;
+  // Purges the words moved to the trash before the given time; returns how many there were
+  purgeDeletedWords(before: Date): Promise<number>;
+  // Senses of the given words, each word's in position order
+  getWordSenses(wordIds: string[]): Promise<WordSense[]>;
+  // Senses with the id of one of the word's senses update it and the others are added;
+  // the word's senses left out are deleted. Their examples are saved separately.
+  saveWordSenses(wordId: string, senses: WordSenseInput[]): Promise<WordSense[]>;
+  // Examples of the given words, each sense's in position order
+  getWordExamples(wordIds: string[]): Promise<WordExample[]>;
+  // Replaces the examples of a sense the same way saveWordSenses replaces senses
+  saveSenseExamples(wordId: string, senseId: string, examples: WordExampleInput[]): Promise<WordExample[]>;
+
+  // Revisions of a word, newest first
+  getWordRevisions(wordId: string): Promise<WordRevision[]>;
+  getWordRevision(id: string): Promise<WordRevision | undefined>;
+  // Suggestions awaiting review on any word, oldest first
+  getPendingWordRevisions(): Promise<WordRevision[]>;
+  createWordRevision(revision: InsertWordRevision): Promise<WordRevision>;
+  updateWordRevision(id: string, updates: Partial<InsertWordRevision>): Promise<WordRevision | undefined>;
   
-  // User progress
-  getUserProgress(userId: string, wordId: string): Promise<UserProgress | undefined>;
-  updateUserProgress(userId: string, wordId: string, progress: Partial<InsertUserProgress>): Promise<UserProgress>;
+  // User progress, one row per card template of a word; the template defaults to recognition
+  getUserProgress(userId: string, wordId: string, template?: CardTemplate): Promise<UserProgress | undefined>;
+  // Progress of every template of a word
+  getWordProgress(userId: string, wordId: string): Promise<UserProgress[]>;
+  getAllUserProgress(userId: string): Promise<UserProgress[]>;
+  updateUserProgress(userId: string, wordId: string, progress: Partial<InsertUserProgress>, template?: CardTemplate): Promise<UserProgress>;
   getWordsForReview(userId: string): Promise<WordWithProgress[]>;
   getWordsByMasteryLevel(userId: string, minLevel: number, maxLevel: number): Promise<WordWithProgress[]>;
-  getNewWordsForPlan(userId: string, category: string, limit: number): Promise<Word[]>;
+  // Words of the plan's target collection, or else its category, with at least one of the
+  // templates the user has not started yet, in the given order
+  getNewWordsForPlan(userId: string, target: Pick<StudyPlan, "targetCategory" | "targetCollectionId">, templates: CardTemplate[], limit: number, order: NewWordOrder, seed: number): Promise<Word[]>;
+  // Number of words falling due on each day from `from` onwards, keyed by YYYY-MM-DD in the
+  // timezone with the given offset (see dayKey)
+  getDueCountsByDay(userId: string, from: Date, timezoneOffset?: number): Promise<Record<string, number>>;
+
+  // Review logs (append-only). Undone reviews are marked rather than removed, and the
+  // getters leave them out.
+  createReviewLog(log: InsertReviewLog): Promise<ReviewLog>;
+  getReviewLogs(userId: string, wordId?: string): Promise<ReviewLog[]>;
+  getReviewLogsSince(userId: string, since: Date): Promise<ReviewLog[]>;
+  // Ids of the given words with at least one review logged before the date
+  getWordsReviewedBefore(userId: string, wordIds: string[], before: Date): Promise<string[]>;
+  // Also removes the session answer recorded with the review
+  markReviewLogUndone(id: string): Promise<void>;
+
+  // Pre-review snapshots for undo, newest first
+  createReviewSnapshot(snapshot: InsertReviewSnapshot): Promise<ReviewSnapshot>;
+  getLatestReviewSnapshot(userId: string): Promise<ReviewSnapshot | undefined>;
+  deleteReviewSnapshot(id: string): Promise<void>;
+  // Delete all but the `keep` newest snapshots of a user
+  pruneReviewSnapshots(userId: string, keep: number): Promise<void>;
+
+  // Scheduler parameters
+  getSchedulerParams(userId: string): Promise<SchedulerParams | undefined>;
+  saveSchedulerParams(params: InsertSchedulerParams): Promise<SchedulerParams>;
   
   // Study sessions
   createStudySession(session: InsertStudySession & { userId: string }): Promise<StudySession>;
   getStudySession(userId: string, sessionId: string): Promise<StudySession | undefined>;
-  updateStudySession(sessionId: string, updates: Partial<StudySession>): Promise<StudySession>;
+  updateStudySession(sessionId: string, updates: Partial<StudySession>): Promise<StudySession | undefined>;
   getRecentStudySessions(userId: string, limit: number): Promise<StudySession[]>;
+  // Latest unfinished session of one of the types, last updated at or after `since`
+  getActiveStudySession(userId: string, sessionTypes: string[], since: Date): Promise<StudySession | undefined>;
+  // Newest first; `from` is inclusive and `to` exclusive
+  getStudySessions(userId: string, filter: { sessionType?: string; from?: Date; to?: Date }, limit: number, offset: number): Promise<{ sessions: StudySession[]; total: number }>;
   
   // Practice results
   savePracticeResult(result: InsertPracticeResult): Promise<PracticeResult>;
   getPracticeHistory(userId: string, wordId: string): Promise<PracticeResult[]>;
+  getUserPracticeResults(userId: string): Promise<PracticeResult[]>;
+  getSessionPracticeResults(userId: string, sessionId: string): Promise<PracticeResult[]>;
   
   // Study plans
   createStudyPlan(plan: InsertStudyPlan): Promise<StudyPlan>;
+  getAllUserPlans(userId: string): Promise<StudyPlan[]>;
   getActiveStudyPlan(userId: string): Promise<StudyPlan | undefined>;
-  updateStudyPlan(userId: string, id: string, updates: Partial<InsertStudyPlan>): Promise<StudyPlan>;
+  updateStudyPlan(userId: string, id: string, updates: Partial<InsertStudyPlan>): Promise<StudyPlan | undefined>;
+  // Moves the plan to the trash and deactivates it
+  deleteStudyPlan(userId: string, id: string): Promise<void>;
+  activateStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined>;
+  // Plans in the trash, most recently deleted first; restored plans stay inactive
+  getDeletedStudyPlans(userId: string): Promise<StudyPlan[]>;
+  restoreStudyPlan(userId: string, id: string): Promise<StudyPlan | undefined>;
+  purgeStudyPlan(userId: string, id: string): Promise<void>;
+  purgeDeletedStudyPlans(before: Date): Promise<number>;
+
+  // Collections, oldest first
+  getCollections(userId: string): Promise<Collection[]>;
+  getCollection(userId: string, id: string): Promise<Collection | undefined>;
+  createCollection(collection: InsertCollection): Promise<Collection>;
+  updateCollection(userId: string, id: string, updates: Partial<InsertCollection>): Promise<Collection | undefined>;
+  // Plans targeting the collection fall back to their category
+  deleteCollection(userId: string, id: string): Promise<void>;
+  // Words of the given collections, each collection's in the order they were added
+  getCollectionWords(collectionIds: string[]): Promise<CollectionWord[]>;
+  // Adding a word that is already in the collection does nothing
+  addWordToCollection(collectionId: string, wordId: string): Promise<void>;
+  removeWordFromCollection(collectionId: string, wordId: string): Promise<void>;
+
+  // Public decks and subscriptions; getCollectionById ignores the owner
+  getCollectionById(id: string): Promise<Collection | undefined>;
+  // Newest first, optionally only those whose name or description contains the search text
+  getPublicCollections(search?: string): Promise<Collection[]>;
+  getSubscribedCollections(userId: string): Promise<Collection[]>;
+  getCollectionSubscriptions(collectionIds: string[]): Promise<CollectionSubscription[]>;
+  // Subscribing twice does nothing
+  subscribeToCollection(userId: string, collectionId: string): Promise<void>;
+  unsubscribeFromCollection(userId: string, collectionId: string): Promise<void>;
   
   // Dashboard
   getDashboardStats(userId: string): Promise<DashboardStats>;
@@ -48,10 +155,35 @@ export interface IStorage {
   // Vocabulary management
   getVocabularyBook(userId: string): Promise<WordWithProgress[]>;
   getStarredWords(userId: string): Promise<WordWithProgress[]>;
+  getLeeches(userId: string): Promise<WordWithProgress[]>;
   toggleWordStar(userId: string, wordId: string): Promise<void>;
   addToVocabularyBook(userId: string, wordId: string): Promise<void>;
 }
 
+// Count consecutive study days ending today or yesterday.
+// `sessionDates` are distinct YYYY-MM-DD strings, most recent first.
+export function calculateStreakDays(sessionDates: string[]): number {
+  let streakDays = 0;
+  if (sessionDates.length > 0) {
+      let currentDate = new Date();
+      let lastDate = new Date(sessionDates[0]);
+      if (Math.abs(currentDate.getTime() - lastDate.getTime()) / (1000 * 3600 * 24) <= 1) {
+          streakDays = 1;
+          for (let i = 1; i < sessionDates.length; i++) {
+              const prevDate = new Date(sessionDates[i]);
+              const diffDays = (lastDate.getTime() - prevDate.getTime()) / (1000 * 3600 * 24);
+              if (diffDays === 1) {
+                  streakDays++;
+                  lastDate = prevDate;
+              } else {
+                  break;
+              }
+          }
+      }
+  }
+  return streakDays;
+}
+
 // We are declaring a global instance of our storage, but initializing it elsewhere.
 // This allows the storage implementation to be swapped easily.
 export declare const storage: IStorage;
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { storage } from "./storage-instance.js";
+import { attachSenses } from "./word-senses.js";
+import type { IStorage } from "./storage.js";
+import type { InsertPracticeResult, PracticeResult, StartStudySession, StudySession, StudySessionDetail, StudySessionPage, StudySessionQuery } from "../shared/schema.js";
+
+// Unfinished sessions untouched for longer than this are not offered for resuming
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start a session with its full queue, so it can be resumed from the server. Returns
+ * undefined if any item is a word the user cannot see.
+ */
+export async function startStudySession(userId: string, { sessionType, items }: StartStudySession): Promise<StudySession | undefined> {
+  const wordIds = Array.from(new Set(items.map(item => item.wordId)));
+  const visible = await storage.getWordsByIds(wordIds, userId);
+  if (visible.length < wordIds.length) return undefined;
+  return await storage.createStudySession({ userId, sessionType, items, wordsLearned: items.length });
+}
+
+/**
+ * Record an answer given in a session. Returns undefined if the session has been
+ * completed, so late answers do not change its statistics.
+ */
+export async function recordPracticeResult(session: StudySession, result: Omit<InsertPracticeResult, "userId" | "sessionId">, tx: IStorage = storage): Promise<PracticeResult | undefined> {
+  if (session.status === "completed") return undefined;
+  return await tx.savePracticeResult({ ...result, sessionId: session.id, userId: session.userId });
+}
+
+/**
+ * Finish a session and compute its statistics from the answers recorded for it.
+ * Cards re-queued during learning steps are answered more than once; accuracy counts
+ * the first answer to each word and exercise type, time counts every answer. Words
+ * without a review logged before the session started count as new. Returns undefined
+ * if the session is not the user's.
+ */
+export async function completeStudySession(userId: string, sessionId: string): Promise<StudySession | undefined> {
+  const session = await storage.getStudySession(userId, sessionId);
+  if (!session) return undefined;
+
+  const results = await storage.getSessionPracticeResults(userId, sessionId);
+  const seen = new Set<string>();
+  const firstAnswers = results.filter(result => {
+    const key = `${result.wordId}:${result.exerciseType}`;
+    return !seen.has(key) && seen.add(key);
+  });
+  const wordIds = Array.from(new Set(results.map(result => result.wordId)));
+  const reviewedBefore = await storage.getWordsReviewedBefore(userId, wordIds, session.createdAt);
+
+  return await storage.updateStudySession(sessionId, {
+    status: "completed",
+    currentIndex: session.items.length,
+    accuracy: firstAnswers.length > 0 ? firstAnswers.filter(result => result.isCorrect).length / firstAnswers.length : 0,
+    timeSpent: Math.round(results.reduce((total, result) => total + result.timeSpent, 0) / 1000),
+    wordsLearned: wordIds.length,
+    newWords: wordIds.length - reviewedBefore.length,
+    reviewedWords: reviewedBefore.length,
+  });
+}
+
+/**
+ * A session with the word of each item and of each recorded practice answer attached.
+ * Items whose word has since been deleted or is not visible to the session's user are
+ * left out, and the current index moves with them.
+ */
+export async function toStudySessionDetail(session: StudySession): Promise<StudySessionDetail> {
+  const practiceResults = await storage.getSessionPracticeResults(session.userId, session.id);
+  const wordIds = Array.from(new Set([...session.items, ...practiceResults].map(item => item.wordId)));
+  const found = await storage.getWordsByIds(wordIds, session.userId);
+  const words = new Map((await attachSenses(found)).map(w => [w.id, w]));
+  const removedBefore = session.items.slice(0, session.currentIndex).filter(item => !words.has(item.wordId)).length;
+  return {
+    ...session,
+    currentIndex: session.currentIndex - removedBefore,
+    items: session.items.filter(item => words.has(item.wordId)).map(item => ({ ...item, word: words.get(item.wordId)! })),
+    practiceResults: practiceResults.filter(result => words.has(result.wordId)).map(result => ({ ...result, word: words.get(result.wordId)! })),
+  };
+}
+
+/**
+ * One page of the user's past sessions, newest first
+ */
+export async function listStudySessions(userId: string, { type, from, to, page, pageSize }: StudySessionQuery): Promise<StudySessionPage> {
+  const filter = {
+    sessionType: type,
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    // The end date is inclusive, so stop at the start of the following day
+    to: to ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000) : undefined,
+  };
+  const { sessions, total } = await storage.getStudySessions(userId, filter, pageSize, (page - 1) * pageSize);
+  return {
+    sessions: sessions.map(({ items, ...session }) => session),
+    total,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * The user's latest unfinished session of one of the given types that can still be
+ * resumed, or undefined if there is none
+ */
+export async function getResumableStudySession(userId: string, sessionTypes: string[]): Promise<StudySessionDetail | undefined> {
+  const session = await storage.getActiveStudySession(userId, sessionTypes, new Date(Date.now() - RESUME_WINDOW_MS));
+  if (!session || session.currentIndex >= session.items.length) return undefined;
+  return await toStudySessionDetail(session);
+}
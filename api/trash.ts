@@ -0,0 +1,69 @@
+import { storage } from "./storage-instance.js";
+import { canEditWord } from "../shared/roles.js";
+import { trashCutoff } from "../shared/trash.js";
+import type { StudyPlan, TrashContents, User, Word } from "../shared/schema.js";
+
+const JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+function withinRetention(item: { deletedAt: Date | null }, cutoff: Date): boolean {
+  return !!item.deletedAt && new Date(item.deletedAt) >= cutoff;
+}
+
+/**
+ * The deleted words the user could restore and their own deleted study plans, most
+ * recently deleted first. Items past the retention window are left out even before
+ * the purge job has removed them.
+ */
+export async function listTrash(user: User): Promise<TrashContents> {
+  const cutoff = trashCutoff();
+  const [words, plans] = await Promise.all([storage.getDeletedWords(user.id), storage.getDeletedStudyPlans(user.id)]);
+  return {
+    words: words.filter(word => withinRetention(word, cutoff) && canEditWord(user, word)),
+    plans: plans.filter(plan => withinRetention(plan, cutoff)),
+  };
+}
+
+/**
+ * A deleted word the user may restore or purge, or undefined if there is none
+ */
+export async function getTrashedWord(user: User, id: string): Promise<Word | undefined> {
+  const { words } = await listTrash(user);
+  return words.find(word => word.id === id);
+}
+
+/**
+ * One of the user's deleted study plans, or undefined if there is none
+ */
+export async function getTrashedPlan(user: User, id: string): Promise<StudyPlan | undefined> {
+  const { plans } = await listTrash(user);
+  return plans.find(plan => plan.id === id);
+}
+
+export interface TrashPurgeResult {
+  words: number;
+  plans: number;
+}
+
+/**
+ * Remove words and study plans that have been in the trash longer than the retention
+ * window, along with the progress on those words
+ */
+export async function runTrashPurge(): Promise<TrashPurgeResult> {
+  const cutoff = trashCutoff();
+  const words = await storage.purgeDeletedWords(cutoff);
+  const plans = await storage.purgeDeletedStudyPlans(cutoff);
+  if (words > 0 || plans > 0) {
+    console.log(`Purged ${words} words and ${plans} study plans from the trash`);
+  }
+  return { words, plans };
+}
+
+/**
+ * Empty expired items from the trash periodically in long-running servers. Serverless
+ * deployments rely on the cron route and the purge that runs on every cold start.
+ */
+export function startTrashPurgeJob(): NodeJS.Timeout {
+  return setInterval(() => {
+    runTrashPurge().catch(error => console.error("Trash purge job failed:", error));
+  }, JOB_INTERVAL_MS);
+}
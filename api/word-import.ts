@@ -0,0 +1,238 @@
+import { storage } from "./storage-instance.js";
+import { createWordWithSenses, updateWordWithSenses } from "./word-senses.js";
+import { senseFromColumns } from "../shared/word-senses.js";
+import { canEditWord, canManageCatalog } from "../shared/roles.js";
+import { recordWordChange } from "./word-revisions.js";
+import { insertWordSchema, wordExampleSchema } from "../shared/schema.js";
+import type { InsertWord, User, WordExampleInput, WordImportMode, WordImportReport, WordImportRowResult } from "../shared/schema.js";
+
+// Columns accepted in import files. Both the camelCase API names and the
+// snake_case database column names are recognised.
+const COLUMN_ALIASES: Record<string, keyof InsertWord> = {
+  word: "word",
+  phonetic: "phonetic",
+  partofspeech: "partOfSpeech",
+  part_of_speech: "partOfSpeech",
+  chinesedefinition: "chineseDefinition",
+  chinese_definition: "chineseDefinition",
+  englishexample: "englishExample",
+  english_example: "englishExample",
+  chineseexample: "chineseExample",
+  chinese_example: "chineseExample",
+  difficulty: "difficulty",
+  category: "category",
+  frequency: "frequency",
+};
+
+const NUMERIC_COLUMNS: (keyof InsertWord)[] = ["difficulty", "frequency"];
+
+// Columns describing the row's example sentence beyond its English and Chinese text
+const EXAMPLE_COLUMN_ALIASES: Record<string, "source" | "difficulty"> = {
+  examplesource: "source",
+  example_source: "source",
+  exampledifficulty: "difficulty",
+  example_difficulty: "difficulty",
+};
+
+/**
+ * Split CSV text into rows of cells. Supports quoted cells containing commas,
+ * newlines and escaped quotes ("").
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM, which Excel adds to exported CSV files
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+function normalizeRecord(record: Record<string, unknown>): Record<string, unknown> {
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const column = COLUMN_ALIASES[key.trim().toLowerCase()];
+    if (!column) continue;
+
+    let cleaned = typeof value === "string" ? value.trim() : value;
+    if (cleaned === "" || cleaned === null) continue;
+    if (NUMERIC_COLUMNS.includes(column) && typeof cleaned === "string") {
+      cleaned = Number(cleaned);
+    }
+    normalized[column] = cleaned;
+  }
+  return normalized;
+}
+
+/**
+ * Example sentences of a record, or undefined if it has none beyond the example
+ * columns. JSON records may give an `examples` array; CSV rows describe their one
+ * example with the example columns plus example_source and example_difficulty.
+ */
+function examplesFromRecord(record: Record<string, unknown>, candidate: Record<string, unknown>): unknown {
+  if (Array.isArray(record.examples)) return record.examples;
+
+  const details: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const field = EXAMPLE_COLUMN_ALIASES[key.trim().toLowerCase()];
+    const cleaned = typeof value === "string" ? value.trim() : value;
+    if (!field || cleaned === "" || cleaned === null || cleaned === undefined) continue;
+    details[field] = field === "difficulty" && typeof cleaned === "string" ? Number(cleaned) : cleaned;
+  }
+  if (Object.keys(details).length === 0) return undefined;
+  return [{ english: candidate.englishExample, chinese: candidate.chineseExample, ...details }];
+}
+
+/**
+ * Parse an uploaded file into raw records keyed by column name.
+ * The format is chosen from the file extension, falling back to the mimetype.
+ */
+export function parseWordFile(file: { originalname: string; mimetype: string; buffer: Buffer }): Record<string, unknown>[] {
+  const text = file.buffer.toString("utf-8");
+  const isJson = file.originalname.toLowerCase().endsWith(".json") || file.mimetype === "application/json";
+
+  if (isJson) {
+    const data = JSON.parse(text);
+    const records = Array.isArray(data) ? data : data?.words;
+    if (!Array.isArray(records)) {
+      throw new Error("JSON file must contain an array of words or an object with a 'words' array.");
+    }
+    return records.map(r => (r && typeof r === "object" ? r : {}));
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error("CSV file is empty.");
+  }
+  return rows.map(cells => Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ""])));
+}
+
+/**
+ * Validate and store imported records. Each record yields one report row and is
+ * saved in a transaction of its own, so a single bad row never aborts the whole
+ * import nor is left half saved. Editors and admins import into the shared catalog;
+ * learners import private words and merge only into their own.
+ */
+export async function importWords(records: Record<string, unknown>[], mode: WordImportMode, user: User): Promise<WordImportReport> {
+  const ownerId = canManageCatalog(user) ? null : user.id;
+  const rows: WordImportRowResult[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < records.length; i++) {
+    // Row numbers are 1-based and refer to data rows, not the CSV header
+    const rowNumber = i + 1;
+    const candidate = normalizeRecord(records[i]);
+    const rawExamples = examplesFromRecord(records[i], candidate);
+    const examplesResult = rawExamples === undefined ? undefined : wordExampleSchema.array().safeParse(rawExamples);
+    let examples: WordExampleInput[] | undefined;
+    if (examplesResult?.success) {
+      examples = examplesResult.data;
+      // The word's example columns mirror the first example when the file leaves them out
+      candidate.englishExample ??= examples[0]?.english;
+      candidate.chineseExample ??= examples[0]?.chinese;
+    }
+    const result = insertWordSchema.safeParse(candidate);
+
+    if (!result.success || examplesResult?.success === false) {
+      const issues = [
+        ...(result.success ? [] : result.error.issues),
+        ...(examplesResult && !examplesResult.success
+          ? examplesResult.error.issues.map(issue => ({ ...issue, path: ["examples", ...issue.path] }))
+          : []),
+      ];
+      rows.push({
+        row: rowNumber,
+        word: typeof candidate.word === "string" ? candidate.word : undefined,
+        status: "invalid",
+        reason: issues.map(issue => `${issue.path.join(".") || "row"}: ${issue.message}`).join("; "),
+      });
+      continue;
+    }
+
+    const data = result.data;
+    const key = data.word.toLowerCase();
+    if (seen.has(key)) {
+      rows.push({ row: rowNumber, word: data.word, status: "skipped", reason: "Duplicate of an earlier row in this file" });
+      continue;
+    }
+    seen.add(key);
+
+    try {
+      const existing = await storage.findWordByText(data.word, user.id);
+      if (!existing) {
+        const word = await createWordWithSenses(examples ? { ...data, senses: [{ ...senseFromColumns(data), examples }] } : data, ownerId);
+        rows.push({ row: rowNumber, word: data.word, status: "created", wordId: word.id });
+      } else if (mode === "merge" && !canEditWord(user, existing)) {
+        rows.push({ row: rowNumber, word: data.word, status: "skipped", reason: "Word exists in the shared catalog and cannot be changed", wordId: existing.id });
+      } else if (mode === "merge") {
+        // Only the columns present in the file overwrite the stored word. Examples in
+        // the file replace those of the word's first sense.
+        const updates = insertWordSchema.partial().parse(candidate);
+        await recordWordChange(user.id, existing.id, async tx => {
+          const updated = await updateWordWithSenses(existing.id, updates, tx);
+          if (updated && examples) {
+            const [first, ...rest] = updated.senses.length > 0 ? updated.senses : [senseFromColumns(updated)];
+            await updateWordWithSenses(existing.id, { senses: [{ ...first, examples }, ...rest] }, tx);
+          }
+        });
+        rows.push({ row: rowNumber, word: data.word, status: "updated", wordId: existing.id });
+      } else {
+        rows.push({ row: rowNumber, word: data.word, status: "skipped", reason: "Word already exists", wordId: existing.id });
+      }
+    } catch (error) {
+      console.error(`Failed to import row ${rowNumber} (${data.word}):`, error);
+      rows.push({ row: rowNumber, word: data.word, status: "invalid", reason: "Failed to save word" });
+    }
+  }
+
+  const count = (status: WordImportRowResult["status"]) => rows.filter(r => r.status === status).length;
+  return {
+    total: rows.length,
+    created: count("created"),
+    updated: count("updated"),
+    skipped: count("skipped"),
+    invalid: count("invalid"),
+    rows,
+  };
+}
@@ -0,0 +1,146 @@
+import { storage } from "./storage-instance.js";
+import type { IStorage } from "./storage.js";
+import { attachSenses, updateWordWithSenses } from "./word-senses.js";
+import { maskEmail } from "./collections.js";
+import { canEditWord } from "../shared/roles.js";
+import { columnsFromSense } from "../shared/word-senses.js";
+import { diffWordSnapshots, snapshotUpdates, toWordSnapshot } from "../shared/word-revisions.js";
+import type { InsertWordRevision, UpdateWord, User, Word, WordRevision, WordRevisionDetail, WordSnapshot, WordSuggestion } from "../shared/schema.js";
+
+async function snapshotOf(word: Word, from: IStorage = storage): Promise<WordSnapshot> {
+  const [withSenses] = await attachSenses([word], from);
+  return toWordSnapshot(withSenses);
+}
+
+async function currentSnapshot(wordId: string, from: IStorage = storage): Promise<WordSnapshot | undefined> {
+  const word = await from.getWord(wordId);
+  return word ? await snapshotOf(word, from) : undefined;
+}
+
+/**
+ * Run a change of a word and record it in the word's history as made by the user, if
+ * it changed anything. The change runs in the same transaction as the revision, using
+ * the storage it is given. Returns what the change returned, or undefined if the word
+ * does not exist.
+ */
+export async function recordWordChange<T>(
+  userId: string,
+  wordId: string,
+  change: (tx: IStorage) => Promise<T>,
+  details: Pick<InsertWordRevision, "revertedRevisionId" | "comment"> = {},
+): Promise<T | undefined> {
+  return await storage.transaction(async tx => {
+    const before = await currentSnapshot(wordId, tx);
+    if (!before) return undefined;
+    const result = await change(tx);
+    const after = await currentSnapshot(wordId, tx);
+    const changedFields = after ? diffWordSnapshots(before, after) : [];
+    if (after && changedFields.length > 0) {
+      await tx.createWordRevision({ wordId, userId, status: "applied", changedFields, before, after, ...details });
+    }
+    return result;
+  });
+}
+
+/**
+ * Update a word as the user and record the change in its history
+ */
+export async function editWord(userId: string, id: string, updates: UpdateWord) {
+  return await recordWordChange(userId, id, tx => updateWordWithSenses(id, updates, tx));
+}
+
+/**
+ * Suggest a correction of a word for editors to review. The suggestion keeps the word
+ * as it is now and as it would be with the correction. Returns undefined if the
+ * correction changes nothing.
+ */
+export async function suggestWordEdit(userId: string, word: Word, { comment, ...updates }: WordSuggestion): Promise<WordRevision | undefined> {
+  const before = await snapshotOf(word);
+  const after: WordSnapshot = {
+    ...before,
+    ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+    // With senses, the word's columns will mirror the first one once applied
+    ...(updates.senses ? columnsFromSense(updates.senses[0]) : {}),
+  };
+  const changedFields = diffWordSnapshots(before, after);
+  if (changedFields.length === 0) return undefined;
+  return await storage.createWordRevision({ wordId: word.id, userId, status: "pending", changedFields, before, after, comment: comment || null });
+}
+
+/**
+ * Apply a pending suggestion. Only the fields it changes are written, so edits made to
+ * other fields since it was suggested are kept; its snapshots are then replaced by the
+ * word as it was just before and after. Returns undefined if there is no such
+ * suggestion.
+ */
+export async function approveRevision(reviewerId: string, id: string): Promise<WordRevision | undefined> {
+  const revision = await storage.getWordRevision(id);
+  if (!revision || revision.status !== "pending") return undefined;
+  const before = await currentSnapshot(revision.wordId);
+  if (!before) return undefined;
+  await updateWordWithSenses(revision.wordId, snapshotUpdates(revision.after, revision.changedFields));
+  const after = await currentSnapshot(revision.wordId) ?? revision.after;
+  return await storage.updateWordRevision(id, {
+    status: "applied",
+    before,
+    after,
+    changedFields: diffWordSnapshots(before, after),
+    reviewerId,
+    reviewedAt: new Date(),
+  });
+}
+
+/**
+ * Turn down a pending suggestion. Returns undefined if there is no such suggestion.
+ */
+export async function rejectRevision(reviewerId: string, id: string): Promise<WordRevision | undefined> {
+  const revision = await storage.getWordRevision(id);
+  if (!revision || revision.status !== "pending") return undefined;
+  return await storage.updateWordRevision(id, { status: "rejected", reviewerId, reviewedAt: new Date() });
+}
+
+/**
+ * Restore a word to how it was before one of its applied revisions. The restore is a
+ * revision of its own, so it can be reverted in turn. Returns undefined if the word
+ * has no such revision.
+ */
+export async function revertWordRevision(userId: string, wordId: string, revisionId: string) {
+  const revision = await storage.getWordRevision(revisionId);
+  if (!revision || revision.wordId !== wordId || revision.status !== "applied") return undefined;
+  return await recordWordChange(userId, wordId, tx => updateWordWithSenses(wordId, snapshotUpdates(revision.before), tx), {
+    revertedRevisionId: revision.id,
+  });
+}
+
+async function toRevisionDetails(revisions: WordRevision[]): Promise<WordRevisionDetail[]> {
+  const names = new Map<string, string>();
+  for (const userId of Array.from(new Set(revisions.flatMap(r => [r.userId, r.reviewerId])))) {
+    if (!userId) continue;
+    const user = await storage.findUserById(userId);
+    names.set(userId, user ? maskEmail(user.email) : "");
+  }
+  return revisions.map(revision => ({
+    ...revision,
+    authorName: revision.userId ? names.get(revision.userId) ?? "" : "",
+    reviewerName: revision.reviewerId ? names.get(revision.reviewerId) ?? "" : null,
+  }));
+}
+
+/**
+ * A word's history as the user may see it, newest first. Everyone who can see the word
+ * sees its applied revisions; pending and rejected suggestions are shown to their
+ * authors and to those who can edit the word.
+ */
+export async function listWordRevisions(user: User, word: Word): Promise<WordRevisionDetail[]> {
+  const canEdit = canEditWord(user, word);
+  const revisions = (await storage.getWordRevisions(word.id))
+    .filter(revision => revision.status === "applied" || canEdit || revision.userId === user.id);
+  return await toRevisionDetails(revisions);
+}
+
+/**
+ * Suggestions awaiting review, oldest first
+ */
+export async function listPendingRevisions(): Promise<WordRevisionDetail[]> {
+  return await toRevisionDetails(await storage.getPendingWordRevisions());
+}
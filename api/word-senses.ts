@@ -0,0 +1,100 @@
+import { storage } from "./storage-instance.js";
+import type { IStorage } from "./storage.js";
+import { columnsFromSense, senseFromColumns } from "../shared/word-senses.js";
+import type { CreateWord, UpdateWord, Word, WordExample, WordSenseDetail, WordSenseInput } from "../shared/schema.js";
+
+export type WordWithSenses<T extends Word = Word> = T & { senses: WordSenseDetail[] };
+
+const SENSE_COLUMNS = ["partOfSpeech", "chineseDefinition", "englishExample", "chineseExample"] as const;
+
+/**
+ * Attach each word's stored senses with their examples. Words without stored senses
+ * get an empty list; clients then read their one sense from the word's columns.
+ */
+export async function attachSenses<T extends Word>(words: T[], from: IStorage = storage): Promise<WordWithSenses<T>[]> {
+  const wordIds = words.map(word => word.id);
+  const [senses, examples] = await Promise.all([from.getWordSenses(wordIds), from.getWordExamples(wordIds)]);
+  const bySense = new Map<string, WordExample[]>();
+  for (const example of examples) {
+    const senseExamples = bySense.get(example.senseId);
+    if (senseExamples) senseExamples.push(example);
+    else bySense.set(example.senseId, [example]);
+  }
+  const byWord = new Map<string, WordSenseDetail[]>();
+  for (const sense of senses) {
+    const detail = { ...sense, examples: bySense.get(sense.id) ?? [] };
+    const wordSenses = byWord.get(sense.wordId);
+    if (wordSenses) wordSenses.push(detail);
+    else byWord.set(sense.wordId, [detail]);
+  }
+  return words.map(word => ({ ...word, senses: byWord.get(word.id) ?? [] }));
+}
+
+// Save a word's senses and then the examples of each, one after another as they run
+// in the caller's transaction
+async function saveSensesWithExamples(tx: IStorage, wordId: string, senses: WordSenseInput[]): Promise<WordSenseDetail[]> {
+  const saved = await tx.saveWordSenses(wordId, senses);
+  const details: WordSenseDetail[] = [];
+  for (const [index, sense] of saved.entries()) {
+    details.push({ ...sense, examples: await tx.saveSenseExamples(wordId, sense.id, senses[index].examples) });
+  }
+  return details;
+}
+
+/**
+ * Create a word with its senses. Without senses, its one sense is taken from the
+ * definition and example columns; with senses, those columns mirror the first one.
+ * A word with an owner is private to them; without one it joins the shared catalog.
+ */
+export async function createWordWithSenses({ senses, ...fields }: Omit<CreateWord, "isPrivate">, ownerId: string | null = null): Promise<WordWithSenses> {
+  const wordSenses = senses ?? [senseFromColumns({
+    partOfSpeech: fields.partOfSpeech ?? "",
+    chineseDefinition: fields.chineseDefinition ?? "",
+    englishExample: fields.englishExample ?? "",
+    chineseExample: fields.chineseExample ?? "",
+  })];
+  return await storage.transaction(async tx => {
+    const word = await tx.createWord({ ...fields, ...columnsFromSense(wordSenses[0]), ownerId });
+    return { ...word, senses: await saveSensesWithExamples(tx, word.id, wordSenses) };
+  });
+}
+
+/**
+ * Update a word and, if given, replace its senses. Edits made only through the
+ * definition and example columns are carried over to the first stored sense, so the
+ * two never disagree. Returns undefined if the word does not exist.
+ */
+export async function updateWordWithSenses(id: string, { senses, ...fields }: UpdateWord, from: IStorage = storage): Promise<WordWithSenses | undefined> {
+  return await from.transaction(async tx => {
+    const existing = await tx.getWord(id);
+    if (!existing) return undefined;
+
+    if (senses) {
+      const word = await tx.updateWord(id, { ...fields, ...columnsFromSense(senses[0]) });
+      if (!word) return undefined;
+      return { ...word, senses: await saveSensesWithExamples(tx, id, senses) };
+    }
+
+    const word = await tx.updateWord(id, fields);
+    if (!word) return undefined;
+    const [{ senses: stored }] = await attachSenses([word], tx);
+    const [first, ...rest] = stored;
+    if (!first || !SENSE_COLUMNS.some(column => fields[column] !== undefined)) {
+      return { ...word, senses: stored };
+    }
+    const fromColumns = senseFromColumns(word);
+    const [firstExample, ...otherExamples] = first.examples;
+    const updatedFirst = {
+      ...first,
+      partOfSpeech: fromColumns.partOfSpeech,
+      chineseDefinition: fromColumns.chineseDefinition,
+      // The columns hold the first example only; its source and difficulty and the
+      // sense's other examples are kept
+      examples: [
+        ...fromColumns.examples.map(example => ({ ...firstExample, ...example })),
+        ...otherExamples,
+      ],
+    };
+    return { ...word, senses: await saveSensesWithExamples(tx, id, [updatedFirst, ...rest]) };
+  });
+}
@@ -14,6 +14,11 @@ import WordBank from "@/pages/wordbank";
 import { LoginPage } from "@/pages/login";
 import { SignupPage } from "@/pages/signup";
 import SessionSummary from "@/pages/session-summary";
+import History from "@/pages/history";
+import Decks from "@/pages/decks";
+import Users from "@/pages/users";
+import Revisions from "@/pages/revisions";
+import Trash from "@/pages/trash";
 import NotFound from "@/pages/not-found";
 
 function App() {
@@ -54,7 +59,32 @@ function App() {
                     <WordBank />
                   </ProtectedRoute>
                 </Route>
-                <Route path="/session-summary">
+                <Route path="/history">
+                  <ProtectedRoute>
+                    <History />
+                  </ProtectedRoute>
+                </Route>
+                <Route path="/decks">
+                  <ProtectedRoute>
+                    <Decks />
+                  </ProtectedRoute>
+                </Route>
+                <Route path="/trash">
+                  <ProtectedRoute>
+                    <Trash />
+                  </ProtectedRoute>
+                </Route>
+                <Route path="/admin/users">
+                  <ProtectedRoute>
+                    <Users />
+                  </ProtectedRoute>
+                </Route>
+                <Route path="/admin/revisions">
+                  <ProtectedRoute>
+                    <Revisions />
+                  </ProtectedRoute>
+                </Route>
+                <Route path="/session-summary/:id">
                   <ProtectedRoute>
                     <SessionSummary />
                   </ProtectedRoute>
@@ -1,8 +1,8 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
-import { BookOpen, Moon, Sun, LogOut, Menu } from "lucide-react";
+import { BookOpen, Moon, Sun, LogOut, Menu, ShieldCheck, ClipboardCheck, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useAuth, User } from "@/hooks/use-auth";
+import { useAuth, User, ROLE_LABELS } from "@/hooks/use-auth";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,6 +14,7 @@ import {
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { cn } from "@/lib/utils";
+import { canManageCatalog } from "@shared/roles";
 
 // Navigation links component to avoid repetition
 const MainNav = ({ className, onLinkClick }: { className?: string, onLinkClick?: () => void }) => {
@@ -28,7 +29,9 @@ const MainNav = ({ className, onLinkClick }: { className?: string, onLinkClick?:
     { href: "/study", label: "记单词" },
     { href: "/practice", label: "练单词" },
     { href: "/plan", label: "学习计划" },
+    { href: "/history", label: "学习记录" },
     { href: "/wordbank", label: "单词库" },
+    { href: "/decks", label: "卡组广场" },
   ];
 
   return (
@@ -162,9 +165,26 @@ export default function Header() {
                   <DropdownMenuLabel className="font-normal">
                     <div className="flex flex-col space-y-1">
                       <p className="text-sm font-medium leading-none">{user.email}</p>
+                      <p className="text-xs leading-none text-muted-foreground">{ROLE_LABELS[user.role]}</p>
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setLocation("/trash")}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    <span>回收站</span>
+                  </DropdownMenuItem>
+                  {canManageCatalog(user) && (
+                    <DropdownMenuItem onClick={() => setLocation("/admin/revisions")}>
+                      <ClipboardCheck className="mr-2 h-4 w-4" />
+                      <span>修改审核</span>
+                    </DropdownMenuItem>
+                  )}
+                  {user.role === "admin" && (
+                    <DropdownMenuItem onClick={() => setLocation("/admin/users")}>
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                      <span>用户管理</span>
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={handleLogout}>
                     <LogOut className="mr-2 h-4 w-4" />
                     <span>注销</span>
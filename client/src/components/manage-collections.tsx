@@ -3,39 +3,102 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuTrigger, DropdownMenuCheckboxItem, DropdownMenuSeparator, DropdownMenuLabel } from "@/components/ui/dropdown-menu";
-import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Check, ChevronsUpDown, Tag } from "lucide-react";
+import { Plus, Tag } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { WordWithProgress } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import type { CollectionWithWords, WordWithProgress } from "@shared/schema";
+import { apiRequest, HttpError } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 
 interface ManageCollectionsProps {
   word: WordWithProgress;
 }
 
+/**
+ * Dropdown for adding a word to the user's collections, removing it from them and
+ * creating a new collection with the word in it.
+ */
 export function ManageCollections({ word }: ManageCollectionsProps) {
-  // This feature is currently disabled due to missing 'Collection' type and API endpoints.
-  const allCollections: any[] = [];
-  const wordCollectionIds = new Set();
-  const newCollectionName = "";
-  const setNewCollectionName = (name: string) => {};
-  const handleCreateCollection = () => {};
-  const createCollectionMutation = { isPending: true };
+  const [newCollectionName, setNewCollectionName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: allCollections = [] } = useQuery<CollectionWithWords[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const wordCollectionIds = new Set(allCollections.filter(c => c.wordIds.includes(word.id)).map(c => c.id));
+
+  const showError = async (error: unknown, defaultMessage: string) => {
+    let description = defaultMessage;
+    if (error instanceof HttpError) {
+      description = (await error.response.json().catch(() => null))?.message || defaultMessage;
+    }
+    toast({ title: "操作失败", description, variant: "destructive" });
+  };
+
+  const toggleWordMutation = useMutation({
+    mutationFn: ({ collectionId, add }: { collectionId: string; add: boolean }) =>
+      apiRequest(add ? "PUT" : "DELETE", `/api/collections/${collectionId}/words/${word.id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/collections"] }),
+    onError: (error) => showError(error, "更新合集失败"),
+  });
+
+  const createCollectionMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const collection: CollectionWithWords = await apiRequest("POST", "/api/collections", { name }).then(res => res.json());
+      await apiRequest("PUT", `/api/collections/${collection.id}/words/${word.id}`);
+      return collection;
+    },
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      setNewCollectionName("");
+      toast({ title: `已加入新合集「${collection.name}」` });
+    },
+    onError: (error) => showError(error, "创建合集失败"),
+  });
+
+  const handleCreateCollection = () => {
+    const name = newCollectionName.trim();
+    if (name) createCollectionMutation.mutate(name);
+  };
 
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
-        <Button variant="ghost" size="sm" disabled>
-          <Tag className="h-4 w-4" />
+        <Button variant="ghost" size="sm" title="管理合集" className={cn(wordCollectionIds.size > 0 && "text-primary")}>
+          <Tag className={cn("h-4 w-4", wordCollectionIds.size > 0 && "fill-current")} />
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent className="w-64" align="end">
-        <DropdownMenuLabel>管理单词合集 (功能禁用)</DropdownMenuLabel>
+        <DropdownMenuLabel>加入合集</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {allCollections.length === 0 && (
+          <div className="p-2 text-xs text-muted-foreground">还没有合集，在下方创建一个。</div>
+        )}
+        {allCollections.map(collection => (
+          <DropdownMenuCheckboxItem
+            key={collection.id}
+            checked={wordCollectionIds.has(collection.id)}
+            disabled={toggleWordMutation.isPending}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => toggleWordMutation.mutate({ collectionId: collection.id, add: checked })}
+          >
+            <span className="flex-1 truncate">{collection.name}</span>
+            <span className="ml-2 text-xs text-muted-foreground">{collection.wordIds.length}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
         <DropdownMenuSeparator />
-        <div className="p-2 text-xs text-muted-foreground">
-          此功能正在开发中。
+        <div className="flex gap-2 p-2" onKeyDown={(e) => e.stopPropagation()}>
+          <Input
+            value={newCollectionName}
+            onChange={(e) => setNewCollectionName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleCreateCollection()}
+            placeholder="新合集名称"
+            className="h-8"
+          />
+          <Button size="sm" onClick={handleCreateCollection} disabled={!newCollectionName.trim() || createCollectionMutation.isPending}>
+            <Plus className="h-4 w-4" />
+          </Button>
         </div>
       </DropdownMenuContent>
     </DropdownMenu>
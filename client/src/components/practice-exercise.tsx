@@ -3,13 +3,25 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Volume2 } from "lucide-react";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import type { WordWithProgress } from "@shared/schema";
+import { findSense } from "@shared/word-senses";
 
 export type ExerciseType = "multiple-choice" | "fill-blank" | "translation" | "listening" | "spelling";
 
+export const EXERCISE_TYPE_LABELS: Record<ExerciseType, string> = {
+  "multiple-choice": "选择题",
+  "fill-blank": "填空题",
+  "translation": "翻译题",
+  "spelling": "拼写题",
+  "listening": "听力题",
+};
+
 export interface ExerciseQuestion {
   id: string;
   word: WordWithProgress;
+  // The sense asked about, for words with several
+  senseId?: string;
   type: ExerciseType;
   question: string;
   options?: string[];
@@ -55,6 +67,12 @@ export default function PracticeExercise({
     onAnswer(option);
   };
 
+  // A-D pick the matching option, R replays the word
+  useKeyboardShortcuts({
+    ...Object.fromEntries((question.options ?? []).map((option, index) => [String.fromCharCode(97 + index), () => handleOptionSelect(option)])),
+    "r": playAudio,
+  });
+
   const handleInputSubmit = (e: React.KeyboardEvent | React.FormEvent) => {
     e.preventDefault();
     if (!isAnswered && userInput.trim()) {
@@ -231,7 +249,7 @@ export default function PracticeExercise({
         </Button>
         <div className="p-4 bg-muted rounded-lg">
           <p className="text-lg font-medium text-card-foreground mb-2">
-            {question.word.chineseDefinition}
+            {findSense(question.word, question.senseId).chineseDefinition}
           </p>
           <p className="text-sm text-muted-foreground">
             听发音并拼写出正确的单词
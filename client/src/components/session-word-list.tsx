@@ -1,5 +1,7 @@
 import type { SessionWord } from "@/pages/study"; // Assuming SessionWord is exported from study.tsx
 import { Check, X, HelpCircle } from "lucide-react";
+import { REVIEW_GRADES } from "@shared/schema";
+import { CARD_TEMPLATE_LABELS } from "@/components/word-card";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
 
@@ -13,16 +15,13 @@ const getStatusIcon = (word: SessionWord) => {
   if (!word.result) {
     return <HelpCircle className="h-4 w-4 text-muted-foreground/50" />;
   }
-  switch (word.result.quality) {
-    case 5:
-      return <Check className="h-4 w-4 text-green-500" />;
-    case 3:
-      return <HelpCircle className="h-4 w-4 text-yellow-500" />;
-    case 1:
-      return <X className="h-4 w-4 text-destructive" />;
-    default:
-      return <HelpCircle className="h-4 w-4 text-muted-foreground/50" />;
+  if (word.result.quality >= REVIEW_GRADES.good) {
+    return <Check className="h-4 w-4 text-green-500" />;
   }
+  if (word.result.quality >= REVIEW_GRADES.hard) {
+    return <HelpCircle className="h-4 w-4 text-yellow-500" />;
+  }
+  return <X className="h-4 w-4 text-destructive" />;
 };
 
 export default function SessionWordList({ words, currentWordIndex, onWordClick }: SessionWordListProps) {
@@ -35,7 +34,7 @@ export default function SessionWordList({ words, currentWordIndex, onWordClick }
         <div className="max-h-[60vh] overflow-y-auto">
           <ul className="space-y-2">
             {words.map((word, index) => (
-              <li key={word.id}>
+              <li key={`${word.id}-${index}`}>
                 <button
                   onClick={() => onWordClick(index)}
                   className={cn(
@@ -45,7 +44,13 @@ export default function SessionWordList({ words, currentWordIndex, onWordClick }
                       : "hover:bg-muted/50",
                   )}
                 >
-                  <span className="font-medium truncate">{word.word}</span>
+                  {/* Other templates prompt for the word itself, so it stays hidden until answered */}
+                  <span className="font-medium truncate">
+                    {word.template === "recognition" || word.result ? word.word : "？？？"}
+                    {word.template !== "recognition" && (
+                      <span className="ml-2 text-xs text-muted-foreground">{CARD_TEMPLATE_LABELS[word.template]}</span>
+                    )}
+                  </span>
                   {getStatusIcon(word)}
                 </button>
               </li>
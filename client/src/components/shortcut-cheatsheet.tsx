@@ -0,0 +1,35 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Keyboard } from "lucide-react";
+
+export interface ShortcutHint {
+  keys: string[];
+  label: string;
+}
+
+interface ShortcutCheatsheetProps {
+  shortcuts: ShortcutHint[];
+}
+
+export default function ShortcutCheatsheet({ shortcuts }: ShortcutCheatsheetProps) {
+  return (
+    <Card className="hidden md:block" data-testid="shortcut-cheatsheet">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-base"><Keyboard className="mr-2 h-4 w-4" />键盘快捷键</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2 text-sm">
+          {shortcuts.map(shortcut => (
+            <li key={shortcut.label} className="flex items-center justify-between">
+              <span className="text-muted-foreground">{shortcut.label}</span>
+              <span className="flex space-x-1">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="px-2 py-0.5 rounded border bg-muted font-mono text-xs">{key}</kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,19 +2,62 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Volume2 } from "lucide-react";
-import type { WordWithProgress } from "@shared/schema";
+import { Volume2, PauseCircle, Moon, RotateCcw } from "lucide-react";
+import type { CardTemplate, WordWithProgress } from "@shared/schema";
+import { findSense, getWordSenses, pickExample, type WordSenseContent } from "@shared/word-senses";
+
+export const CARD_TEMPLATE_LABELS: Record<CardTemplate, string> = {
+  recognition: "英译中",
+  production: "中译英",
+  listening: "听音拼写",
+  cloze: "例句填空",
+};
+
+const PROMPT_HINTS: Record<CardTemplate, string> = {
+  recognition: "想一想它的意思，点击或按空格查看答案",
+  production: "想一想对应的英文单词，点击或按空格查看答案",
+  listening: "听发音，拼写出这个单词，点击或按空格查看答案",
+  cloze: "想一想空格处的单词，点击或按空格查看答案",
+};
+
+// An example sentence of the sense with the word blanked out, or null if the word
+// does not occur in any of them. The sentence changes with every review of the word.
+function toCloze(word: WordWithProgress, sense: WordSenseContent): string | null {
+  const example = pickExample(sense, word.progress?.timesStudied ?? 0, word.word);
+  if (!example) return null;
+  const escaped = word.word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const sentence = example.english.replace(new RegExp(`\\b${escaped}\\w*`, "gi"), "____");
+  return sentence !== example.english ? sentence : null;
+}
 
 interface WordCardProps {
   word: WordWithProgress;
+  // Which side of the word the learner is prompted with; the rest is revealed by flipping the card
+  template?: CardTemplate;
+  // The meaning the card is about; defaults to the word's first sense
+  senseId?: string;
   onPlayAudio: () => void;
+  // Pass both to control flipping from outside, e.g. with keyboard shortcuts
+  isFlipped?: boolean;
+  onFlip?: () => void;
+  // Per-user scheduling controls; buttons are only shown for the handlers given
+  onSuspend?: () => void;
+  onBury?: () => void;
+  onReset?: () => void;
 }
 
-export default function WordCard({ word, onPlayAudio }: WordCardProps) {
-  const [isFlipped, setIsFlipped] = useState(false);
+export default function WordCard({ word, template = "recognition", senseId, onPlayAudio, isFlipped: controlledFlipped, onFlip, onSuspend, onBury, onReset }: WordCardProps) {
+  const [uncontrolledFlipped, setUncontrolledFlipped] = useState(false);
+  const isFlipped = controlledFlipped ?? uncontrolledFlipped;
+  const sense = findSense(word, senseId);
+  const otherSenses = getWordSenses(word).filter(other => other.id !== sense.id);
 
   const handleFlip = () => {
-    setIsFlipped(!isFlipped);
+    if (onFlip) {
+      onFlip();
+    } else {
+      setUncontrolledFlipped(!uncontrolledFlipped);
+    }
   };
 
   const handleAudioClick = (e: React.MouseEvent) => {
@@ -22,67 +65,179 @@ export default function WordCard({ word, onPlayAudio }: WordCardProps) {
     onPlayAudio();
   };
 
+  const controlHandler = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  const renderPrompt = () => {
+    switch (template) {
+      case "production":
+        return (
+          <div className="text-center mb-6">
+            <h3 className="text-3xl font-bold text-card-foreground mb-4" data-testid="text-definition-front">
+              {sense.chineseDefinition}
+            </h3>
+            <Badge variant="secondary" data-testid="badge-part-of-speech-front">
+              {sense.partOfSpeech}
+            </Badge>
+          </div>
+        );
+      case "listening":
+        return (
+          <div className="text-center mb-6">
+            <Button
+              size="lg"
+              className="p-6 rounded-full mb-4"
+              onClick={handleAudioClick}
+              data-testid="button-play-audio"
+            >
+              <Volume2 className="h-10 w-10" />
+            </Button>
+            <p className="text-lg text-muted-foreground">{sense.partOfSpeech}</p>
+          </div>
+        );
+      case "cloze":
+        return (
+          <div className="text-center mb-6">
+            <p className="text-2xl text-card-foreground mb-4" data-testid="text-cloze-front">
+              {toCloze(word, sense) ?? "____"}
+            </p>
+            <p className="text-muted-foreground" data-testid="text-cloze-hint">
+              {sense.chineseDefinition}
+            </p>
+          </div>
+        );
+      default:
+        return (
+          <div className="text-center mb-6">
+            <Button 
+              size="lg" 
+              className="p-3 rounded-full mb-4" 
+              onClick={handleAudioClick}
+              data-testid="button-play-audio"
+            >
+              <Volume2 className="h-6 w-6" />
+            </Button>
+            <h3 className="text-4xl font-bold text-card-foreground mb-2" data-testid="text-word-front">
+              {word.word}
+            </h3>
+            <p className="text-lg text-muted-foreground" data-testid="text-phonetic-front">
+              {word.phonetic}
+            </p>
+          </div>
+        );
+    }
+  };
+
   return (
     <div className={`flip-card ${isFlipped ? 'flipped' : ''}`} onClick={handleFlip} data-testid="word-card">
       <div className="flip-card-inner">
         {/* Front of card */}
         <Card className="flip-card-front border border-border">
           <CardContent className="h-full flex flex-col justify-center items-center p-8">
-            <div className="text-center mb-6">
-              <Button 
-                size="lg" 
-                className="p-3 rounded-full mb-4" 
-                onClick={handleAudioClick}
-                data-testid="button-play-audio"
-              >
-                <Volume2 className="h-6 w-6" />
-              </Button>
-              <h3 className="text-4xl font-bold text-card-foreground mb-2" data-testid="text-word-front">
-                {word.word}
-              </h3>
-              <p className="text-lg text-muted-foreground" data-testid="text-phonetic-front">
-                {word.phonetic}
-              </p>
-            </div>
+            {renderPrompt()}
             <div className="text-center">
-              <p className="text-muted-foreground mb-4">点击翻转查看释义</p>
+              <p className="text-muted-foreground mb-4">{PROMPT_HINTS[template]}</p>
               <div className="flex justify-center space-x-2">
                 <div className="w-2 h-2 bg-primary rounded-full"></div>
                 <div className="w-2 h-2 bg-muted rounded-full"></div>
                 <div className="w-2 h-2 bg-muted rounded-full"></div>
               </div>
             </div>
+            {(onSuspend || onBury || onReset) && (
+              <div className="flex justify-center space-x-2 mt-6">
+                {onSuspend && (
+                  <Button variant="ghost" size="sm" onClick={controlHandler(onSuspend)} data-testid="button-suspend">
+                    <PauseCircle className="mr-1 h-4 w-4" />暂停复习
+                  </Button>
+                )}
+                {onBury && (
+                  <Button variant="ghost" size="sm" onClick={controlHandler(onBury)} data-testid="button-bury">
+                    <Moon className="mr-1 h-4 w-4" />今天跳过
+                  </Button>
+                )}
+                {onReset && (
+                  <Button variant="ghost" size="sm" onClick={controlHandler(onReset)} data-testid="button-reset">
+                    <RotateCcw className="mr-1 h-4 w-4" />重新学习
+                  </Button>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
         
         {/* Back of card */}
         <Card className="flip-card-back border border-border">
           <CardContent className="h-full flex flex-col justify-center p-8">
-            <div className="mb-6">
-              <h4 className="text-sm font-semibold text-muted-foreground mb-2">中文释义</h4>
-              <p className="text-2xl font-semibold text-card-foreground mb-4" data-testid="text-definition-back">
-                {word.chineseDefinition}
-              </p>
-            </div>
+            {template === "recognition" ? (
+              <div className="mb-6">
+                <h4 className="text-sm font-semibold text-muted-foreground mb-2">中文释义</h4>
+                <p className="text-2xl font-semibold text-card-foreground mb-4" data-testid="text-definition-back">
+                  {sense.chineseDefinition}
+                </p>
+                {sense.englishDefinition && (
+                  <p className="text-muted-foreground" data-testid="text-english-definition-back">{sense.englishDefinition}</p>
+                )}
+              </div>
+            ) : (
+              <div className="mb-6 flex items-center space-x-4">
+                <div>
+                  <h3 className="text-3xl font-bold text-card-foreground" data-testid="text-word-back">
+                    {word.word}
+                  </h3>
+                  <p className="text-muted-foreground" data-testid="text-phonetic-back">
+                    {word.phonetic}
+                  </p>
+                </div>
+                <Button size="sm" className="rounded-full" onClick={handleAudioClick} data-testid="button-play-audio">
+                  <Volume2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
             
             <div className="mb-6">
               <h4 className="text-sm font-semibold text-muted-foreground mb-2">词性</h4>
               <Badge variant="secondary" data-testid="badge-part-of-speech">
-                {word.partOfSpeech}
+                {sense.partOfSpeech}
               </Badge>
             </div>
             
-            <div>
-              <h4 className="text-sm font-semibold text-muted-foreground mb-2">例句</h4>
-              <div className="bg-muted rounded-lg p-4">
-                <p className="text-card-foreground mb-2" data-testid="text-english-example">
-                  {word.englishExample}
-                </p>
-                <p className="text-sm text-muted-foreground" data-testid="text-chinese-example">
-                  {word.chineseExample}
-                </p>
+            {sense.examples.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-muted-foreground mb-2">例句</h4>
+                <div className="bg-muted rounded-lg p-4 space-y-3">
+                  {sense.examples.map((example, index) => (
+                    <div key={index}>
+                      <p className="text-card-foreground mb-1" data-testid="text-english-example">
+                        {example.english}
+                      </p>
+                      <p className="text-sm text-muted-foreground" data-testid="text-chinese-example">
+                        {example.chinese}
+                      </p>
+                      {example.source && (
+                        <p className="text-xs text-muted-foreground mt-1" data-testid="text-example-source">
+                          —— {example.source}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
+
+            {otherSenses.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-sm font-semibold text-muted-foreground mb-2">其他释义</h4>
+                <ul className="space-y-1 text-sm text-card-foreground" data-testid="list-other-senses">
+                  {otherSenses.map((other, index) => (
+                    <li key={other.id ?? index}>
+                      <span className="text-muted-foreground mr-2">{other.partOfSpeech}</span>{other.chineseDefinition}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
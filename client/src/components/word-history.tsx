@@ -0,0 +1,133 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Word, WordRevisionDetail, WordRevisionStatus, WordSnapshot, WordSnapshotField } from "@shared/schema";
+import { canEditWord } from "@shared/roles";
+import { apiRequest, HttpError } from "@/lib/queryClient";
+
+const FIELD_LABELS: Record<WordSnapshotField, string> = {
+  "word": "单词",
+  "phonetic": "音标",
+  "partOfSpeech": "词性",
+  "chineseDefinition": "中文释义",
+  "englishExample": "英文例句",
+  "chineseExample": "中文例句",
+  "difficulty": "难度",
+  "category": "分类",
+  "frequency": "词频",
+  "senses": "释义与例句",
+};
+
+export const REVISION_STATUS_LABELS: Record<WordRevisionStatus, string> = {
+  "applied": "已生效",
+  "pending": "待审核",
+  "rejected": "未采纳",
+};
+
+// Senses as one line each: part of speech, definitions and example sentences
+function formatSenses(senses: WordSnapshot["senses"]): string {
+  return senses.map((sense, index) => [
+    `${index + 1}. ${sense.partOfSpeech} ${sense.chineseDefinition}`,
+    sense.englishDefinition,
+    ...sense.examples.map(example => `${example.english}（${example.chinese}）`),
+  ].filter(Boolean).join(" · ")).join("\n");
+}
+
+function formatField(snapshot: WordSnapshot, field: WordSnapshotField): string {
+  return field === "senses" ? formatSenses(snapshot.senses) : String(snapshot[field] ?? "");
+}
+
+/**
+ * The fields a revision changed, each with its old value struck through above the new one
+ */
+export function RevisionDiff({ revision }: { revision: Pick<WordRevisionDetail, "before" | "after" | "changedFields"> }) {
+  return (
+    <dl className="space-y-2 text-sm">
+      {revision.changedFields.map(field => (
+        <div key={field} className="grid grid-cols-[6rem_1fr] gap-2">
+          <dt className="text-muted-foreground">{FIELD_LABELS[field]}</dt>
+          <dd className="space-y-1 min-w-0">
+            <p className="whitespace-pre-line break-words rounded bg-destructive/10 px-2 py-1 line-through decoration-destructive/60">{formatField(revision.before, field) || "（空）"}</p>
+            <p className="whitespace-pre-line break-words rounded bg-chart-2/10 px-2 py-1">{formatField(revision.after, field) || "（空）"}</p>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/**
+ * A word's edit history, newest first. Those who can edit the word can restore it to
+ * how it was before any applied change.
+ */
+export function WordHistoryDialog({ word, onClose }: { word: Word | null; onClose: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<WordRevisionDetail[]>({
+    queryKey: ["/api/words", word?.id, "revisions"],
+    enabled: !!word,
+    staleTime: 0,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: (revision: WordRevisionDetail) => apiRequest("POST", `/api/words/${revision.wordId}/revisions/${revision.id}/revert`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/words"] });
+      toast({ title: "已还原到修改前的版本" });
+    },
+    onError: async (error) => {
+      let description = "还原失败，请稍后再试。";
+      if (error instanceof HttpError) {
+        description = (await error.response.json().catch(() => null))?.message || description;
+      }
+      toast({ title: "操作失败", description, variant: "destructive" });
+    },
+  });
+
+  const canRevert = !!word && !!user && canEditWord(user, word);
+
+  return (
+    <Dialog open={!!word} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>「{word?.word}」的修改记录</DialogTitle>
+          <DialogDescription>每次修改都会保留修改前后的内容，还原本身也会记为一次修改。</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">{[...Array(3)].map((_, i) => <Skeleton key={i} className="h-16 w-full" />)}</div>
+        ) : revisions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">这个单词还没有被修改过。</p>
+        ) : (
+          <ul className="divide-y">
+            {revisions.map(revision => (
+              <li key={revision.id} className="py-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{revision.authorName || "已注销用户"}</span>
+                    <span className="text-muted-foreground">{new Date(revision.createdAt).toLocaleString()}</span>
+                    {revision.status !== "applied" && <Badge variant={revision.status === "pending" ? "secondary" : "outline"}>{REVISION_STATUS_LABELS[revision.status as WordRevisionStatus]}</Badge>}
+                    {revision.revertedRevisionId && <Badge variant="outline">还原</Badge>}
+                  </div>
+                  {canRevert && revision.status === "applied" && (
+                    <Button variant="ghost" size="sm" disabled={revertMutation.isPending} onClick={() => revertMutation.mutate(revision)}>
+                      <Undo2 className="h-4 w-4 mr-1" />还原到修改前
+                    </Button>
+                  )}
+                </div>
+                {revision.comment && <p className="text-sm text-muted-foreground">说明：{revision.comment}</p>}
+                <RevisionDiff revision={revision} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Trash2 } from "lucide-react";
+import { insertWordSchema, wordExampleSchema, wordSenseInputSchema, type Word, type WordSenseDetail } from "@shared/schema";
+import { getWordSenses } from "@shared/word-senses";
+
+const PARTS_OF_SPEECH: Record<string, string> = {
+  "noun": "名词",
+  "verb": "动词",
+  "adjective": "形容词",
+  "adverb": "副词",
+};
+
+const DIFFICULTY_LABELS: Record<number, string> = {
+  1: "1 - 很简单",
+  2: "2 - 简单",
+  3: "3 - 中等",
+  4: "4 - 困难",
+  5: "5 - 很困难",
+};
+
+const senseFormSchema = wordSenseInputSchema.extend({
+  englishDefinition: z.string().optional(),
+  examples: z.array(wordExampleSchema.extend({ source: z.string().optional() })),
+});
+
+// Form for adding and editing a word. The word's single definition and example
+// columns are filled by the server from the first sense. isPrivate only applies when
+// an editor or admin adds a word; learners' words are always private.
+export const wordFormSchema = insertWordSchema.pick({ word: true, phonetic: true, category: true }).extend({
+  senses: z.array(senseFormSchema).min(1, "至少需要一个释义"),
+  isPrivate: z.boolean().optional(),
+});
+
+export type WordFormValues = z.infer<typeof wordFormSchema>;
+
+export const EMPTY_SENSE: WordFormValues["senses"][number] = {
+  partOfSpeech: "noun",
+  chineseDefinition: "",
+  englishDefinition: "",
+  examples: [{ english: "", chinese: "", source: "", difficulty: 1 }],
+};
+
+const EMPTY_EXAMPLE: WordFormValues["senses"][number]["examples"][number] = { english: "", chinese: "", source: "", difficulty: 1 };
+
+export function toWordFormValues(word: Word & { senses?: WordSenseDetail[] }): WordFormValues {
+  return {
+    word: word.word,
+    phonetic: word.phonetic,
+    category: word.category,
+    senses: getWordSenses(word).map(sense => ({
+      ...sense,
+      englishDefinition: sense.englishDefinition ?? "",
+      examples: sense.examples.map(example => ({ ...example, source: example.source ?? "" })),
+    })),
+  };
+}
+
+function SenseExamplesEditor({ form, senseIndex }: { form: UseFormReturn<WordFormValues>; senseIndex: number }) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: `senses.${senseIndex}.examples` });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <FormLabel>例句</FormLabel>
+        <Button type="button" variant="ghost" size="sm" onClick={() => append(EMPTY_EXAMPLE)}>
+          <Plus className="mr-1 h-4 w-4" />添加例句
+        </Button>
+      </div>
+      {fields.map((field, exampleIndex) => (
+        <div key={field.id} className="flex gap-2 items-start">
+          <div className="flex-1 space-y-2">
+            <FormField control={form.control} name={`senses.${senseIndex}.examples.${exampleIndex}.english`} render={({ field }) => (<FormItem><FormControl><Textarea placeholder="英文例句" rows={2} {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name={`senses.${senseIndex}.examples.${exampleIndex}.chinese`} render={({ field }) => (<FormItem><FormControl><Textarea placeholder="中文翻译" rows={2} {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              <FormField control={form.control} name={`senses.${senseIndex}.examples.${exampleIndex}.source`} render={({ field }) => (<FormItem className="md:col-span-2"><FormControl><Input placeholder="出处（可选）" {...field} /></FormControl><FormMessage /></FormItem>)} />
+              <FormField control={form.control} name={`senses.${senseIndex}.examples.${exampleIndex}.difficulty`} render={({ field }) => (<FormItem><Select onValueChange={(value) => field.onChange(parseInt(value))} value={String(field.value ?? 1)}><FormControl><SelectTrigger title="例句难度"><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(DIFFICULTY_LABELS).map(([level, name]) => (<SelectItem key={level} value={level}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
+            </div>
+          </div>
+          <Button type="button" variant="ghost" size="sm" title="删除例句" onClick={() => remove(exampleIndex)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * List of a word's senses, each with its part of speech, definitions and examples.
+ * The first sense is the one shown wherever a single meaning is needed.
+ */
+export default function WordSensesEditor({ form }: { form: UseFormReturn<WordFormValues> }) {
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "senses" });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">释义</h3>
+        <Button type="button" variant="outline" size="sm" onClick={() => append(EMPTY_SENSE)}>
+          <Plus className="mr-1 h-4 w-4" />添加释义
+        </Button>
+      </div>
+      {fields.map((field, senseIndex) => (
+        <div key={field.id} className="border rounded-lg p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">释义 {senseIndex + 1}{senseIndex === 0 ? "（主要）" : ""}</span>
+            {fields.length > 1 && (
+              <Button type="button" variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => remove(senseIndex)}>
+                <Trash2 className="mr-1 h-4 w-4" />删除释义
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <FormField control={form.control} name={`senses.${senseIndex}.partOfSpeech`} render={({ field }) => (<FormItem><FormLabel>词性 *</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(PARTS_OF_SPEECH).map(([key, name]) => (<SelectItem key={key} value={key}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name={`senses.${senseIndex}.chineseDefinition`} render={({ field }) => (<FormItem className="md:col-span-2"><FormLabel>中文释义 *</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
+          </div>
+          <FormField control={form.control} name={`senses.${senseIndex}.englishDefinition`} render={({ field }) => (<FormItem><FormLabel>英文释义</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
+          <SenseExamplesEditor form={form} senseIndex={senseIndex} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,11 +1,19 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import type { UserRole } from '@shared/schema';
 
 export interface User {
   id: string;
   email: string;
+  role: UserRole;
   createdAt: string;
 }
 
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "管理员",
+  editor: "编辑",
+  learner: "学习者",
+};
+
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
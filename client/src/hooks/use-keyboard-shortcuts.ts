@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+
+// Keys are lower-case `KeyboardEvent.key` values ("a", "1", "enter"), "space" for the
+// space bar, and prefixed with "mod+" when Ctrl or Cmd is held.
+export type ShortcutBindings = Record<string, () => void>;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLInputElement
+    || target instanceof HTMLTextAreaElement
+    || target instanceof HTMLSelectElement
+    || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+function toShortcut(event: KeyboardEvent): string {
+  const key = event.key === " " ? "space" : event.key.toLowerCase();
+  return event.ctrlKey || event.metaKey ? `mod+${key}` : key;
+}
+
+/**
+ * Call the bound handler for each key press, except while the user is typing in a field.
+ */
+export function useKeyboardShortcuts(bindings: ShortcutBindings, enabled = true) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.repeat || isTypingTarget(event.target)) return;
+      const handler = bindingsRef.current[toShortcut(event)];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -1,4 +1,5 @@
-import type { Word } from "@shared/schema";
+import type { WordWithProgress } from "@shared/schema";
+import { getWordSenses, pickExample, pickRandomSense, type WordSenseContent } from "@shared/word-senses";
 import type { ExerciseQuestion, ExerciseType } from "@/components/practice-exercise";
 
 // Shuffles an array in place and returns it
@@ -12,12 +13,20 @@ function shuffle<T>(array: T[]): T[] {
 
 // ===== Question Type Generators =====
 
-function generateMultipleChoiceDefinition(word: Word, distractorWords: Word[]): ExerciseQuestion {
+// An example of the sense that contains the word, if any. Rotates with the number of
+// times the word was studied so repeated reviews don't reuse the same sentence.
+function findExample(word: WordWithProgress, sense: WordSenseContent): string | undefined {
+  return pickExample(sense, word.progress?.timesStudied ?? 0, word.word)?.english;
+}
+
+function generateMultipleChoiceDefinition(word: WordWithProgress, sense: WordSenseContent, distractorWords: WordWithProgress[]): ExerciseQuestion {
   const questionText = `"${word.word}" 的中文意思是什么？`;
-  const correctAnswer = word.chineseDefinition;
+  const correctAnswer = sense.chineseDefinition;
+  // None of the word's other meanings may appear as a wrong option
+  const ownDefinitions = getWordSenses(word).map(s => s.chineseDefinition);
 
   const distractors = distractorWords
-    .filter(w => w.id !== word.id && w.chineseDefinition !== correctAnswer)
+    .filter(w => w.id !== word.id && !ownDefinitions.includes(w.chineseDefinition))
     .slice(0, 3)
     .map(w => w.chineseDefinition);
 
@@ -30,6 +39,7 @@ function generateMultipleChoiceDefinition(word: Word, distractorWords: Word[]):
   return {
     id: `${word.id}-mc-def`,
     word,
+    senseId: sense.id,
     type: "multiple-choice",
     question: questionText,
     options,
@@ -37,42 +47,46 @@ function generateMultipleChoiceDefinition(word: Word, distractorWords: Word[]):
   };
 }
 
-function generateFillBlank(word: Word): ExerciseQuestion | null {
-  if (!word.englishExample) return null;
+function generateFillBlank(word: WordWithProgress, sense: WordSenseContent): ExerciseQuestion | null {
+  const example = findExample(word, sense);
+  if (!example) return null;
   
-  const sentence = word.englishExample.replace(new RegExp(word.word, 'gi'), '____');
+  const sentence = example.replace(new RegExp(word.word, 'gi'), '____');
   if (!sentence.includes('____')) return null; // Word not found in sentence
 
   return {
     id: `${word.id}-fill-blank`,
     word,
+    senseId: sense.id,
     type: "fill-blank",
     question: sentence,
     correctAnswer: word.word,
   };
 }
 
-function generateTranslation(word: Word): ExerciseQuestion {
+function generateTranslation(word: WordWithProgress, sense: WordSenseContent): ExerciseQuestion {
   return {
     id: `${word.id}-translation`,
     word,
+    senseId: sense.id,
     type: "translation",
-    question: `请翻译：${word.chineseDefinition}`,
+    question: `请翻译：${sense.chineseDefinition}`,
     correctAnswer: word.word,
   };
 }
 
-function generateSpelling(word: Word): ExerciseQuestion {
+function generateSpelling(word: WordWithProgress, sense: WordSenseContent): ExerciseQuestion {
     return {
         id: `${word.id}-spelling`,
         word,
+        senseId: sense.id,
         type: "spelling",
         question: "听发音，拼写单词",
         correctAnswer: word.word,
     };
 }
 
-function generateListening(word: Word, distractorWords: Word[]): ExerciseQuestion {
+function generateListening(word: WordWithProgress, distractorWords: WordWithProgress[]): ExerciseQuestion {
     const correctAnswer = word.word;
     const distractors = distractorWords
         .filter(w => w.id !== word.id && w.word !== correctAnswer)
@@ -103,18 +117,20 @@ function generateListening(word: Word, distractorWords: Word[]): ExerciseQuestio
  * @param word The word to generate a question for.
  * @param distractorWords A pool of other words to use for generating distractors.
  * @param allowedTypes An array of exercise types to choose from. If not provided, all possible types will be considered.
+ * @param sense The meaning of the word to ask about. Defaults to a random one of its senses.
  * @returns A generated ExerciseQuestion object, or null if no suitable question could be generated.
  */
 export function generateQuestion(
-  word: Word, 
-  distractorWords: Word[], 
-  allowedTypes?: ExerciseType[]
+  word: WordWithProgress, 
+  distractorWords: WordWithProgress[], 
+  allowedTypes?: ExerciseType[],
+  sense: WordSenseContent = pickRandomSense(word)
 ): ExerciseQuestion | null {
   let possibleTypes: ExerciseType[] = [];
 
   // Determine all possible types for this word
   const allPossibleTypes: ExerciseType[] = ["multiple-choice", "translation", "spelling"];
-  if (word.englishExample && word.englishExample.toLowerCase().includes(word.word.toLowerCase())) {
+  if (findExample(word, sense)) {
     allPossibleTypes.push("fill-blank");
   }
   if (distractorWords.length >= 3) {
@@ -138,13 +154,13 @@ export function generateQuestion(
   try {
     switch (type) {
       case "multiple-choice":
-        return generateMultipleChoiceDefinition(word, distractorWords);
+        return generateMultipleChoiceDefinition(word, sense, distractorWords);
       case "fill-blank":
-        return generateFillBlank(word);
+        return generateFillBlank(word, sense);
       case "translation":
-        return generateTranslation(word);
+        return generateTranslation(word, sense);
       case "spelling":
-        return generateSpelling(word);
+        return generateSpelling(word, sense);
       case "listening":
         return generateListening(word, distractorWords);
       default:
@@ -153,6 +169,6 @@ export function generateQuestion(
   } catch (error) {
     console.error(`Failed to generate question of type ${type} for word "${word.word}":`, error);
     // Fallback to a simpler question type if generation fails
-    return generateTranslation(word);
+    return generateTranslation(word, sense);
   }
 }
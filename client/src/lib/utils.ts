@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Seconds spent on a session, as shown in its summary and in the history
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds} 秒`
+  return `${Math.round(seconds / 60)} 分钟`
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Search, BookmarkPlus, BookmarkCheck, GitFork, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CollectionWithWords, PublicDeck, PublicDeckDetail } from "@shared/schema";
+import { getWordSenses } from "@shared/word-senses";
+import { apiRequest, HttpError } from "@/lib/queryClient";
+
+function DeckDetailDialog({ deckId, onClose }: { deckId: string | null; onClose: () => void }) {
+  const { data: deck, isLoading } = useQuery<PublicDeckDetail>({
+    queryKey: ["/api/decks", deckId],
+    enabled: !!deckId,
+    staleTime: 0,
+  });
+
+  return (
+    <Dialog open={!!deckId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{deck?.name ?? "卡组详情"}</DialogTitle>
+          {deck && <DialogDescription>{deck.description || "暂无简介"} · 由 {deck.ownerName} 分享</DialogDescription>}
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">{[...Array(4)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}</div>
+        ) : !deck || deck.words.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">这个卡组还没有单词。</p>
+        ) : (
+          <ul className="divide-y">
+            {deck.words.map(word => (
+              <li key={word.id} className="flex items-center justify-between py-2">
+                <div className="min-w-0">
+                  <span className="font-medium">{word.word}</span>
+                  <span className="ml-2 text-sm text-muted-foreground truncate">{getWordSenses(word).map(sense => sense.chineseDefinition).join("；")}</span>
+                </div>
+                {word.progress?.lastStudied && <Badge variant="secondary">已学</Badge>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Decks() {
+  const [search, setSearch] = useState("");
+  const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const params = new URLSearchParams();
+  if (search.trim()) params.set("search", search.trim());
+
+  // Decks change as their owners edit them, so always refetch
+  const { data: decks, isLoading } = useQuery<PublicDeck[]>({
+    queryKey: [`/api/decks?${params}`],
+    staleTime: 0,
+  });
+
+  const showError = async (error: unknown, defaultMessage: string) => {
+    let description = defaultMessage;
+    if (error instanceof HttpError) {
+      description = (await error.response.json().catch(() => null))?.message || defaultMessage;
+    }
+    toast({ title: "操作失败", description, variant: "destructive" });
+  };
+
+  const refreshDecks = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/decks") });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: ({ deck, subscribe }: { deck: PublicDeck; subscribe: boolean }) =>
+      apiRequest(subscribe ? "POST" : "DELETE", `/api/decks/${deck.id}/subscribe`),
+    onSuccess: (_, { deck, subscribe }) => {
+      refreshDecks();
+      if (!subscribe) queryClient.invalidateQueries({ queryKey: ["/api/study-plans"] });
+      toast({ title: subscribe ? `已订阅「${deck.name}」` : `已取消订阅「${deck.name}」` });
+    },
+    onError: (error) => showError(error, "订阅失败，请稍后再试。"),
+  });
+
+  const forkMutation = useMutation({
+    mutationFn: (deck: PublicDeck): Promise<CollectionWithWords> =>
+      apiRequest("POST", `/api/decks/${deck.id}/fork`, { name: `${deck.name}（副本）` }).then(res => res.json()),
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      toast({ title: "已复制到我的合集", description: `可以在单词库的「${collection.name}」中编辑。` });
+    },
+    onError: (error) => showError(error, "复制失败，请稍后再试。"),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">卡组广场</h1>
+        <p className="text-muted-foreground mt-2">浏览其他同学公开的单词卡组。订阅后卡组的更新会同步给你，复制则得到一份可以自己编辑的合集，学习进度都会保留。</p>
+      </div>
+
+      <div className="relative max-w-md">
+        <Input placeholder="搜索卡组..." value={search} onChange={(e) => setSearch(e.target.value)} className="pl-10" />
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">{[...Array(3)].map((_, i) => <Skeleton key={i} className="h-40 w-full" />)}</div>
+      ) : !decks || decks.length === 0 ? (
+        <p className="text-center text-muted-foreground py-16">{search ? "没有找到匹配的卡组。" : "还没有公开的卡组。在单词库中编辑合集并设为公开，就能分享给大家。"}</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {decks.map(deck => (
+            <Card key={deck.id} className="flex flex-col">
+              <CardHeader className="cursor-pointer" onClick={() => setSelectedDeckId(deck.id)}>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span className="truncate">{deck.name}</span>
+                  {deck.isOwn && <Badge variant="outline">我的</Badge>}
+                </CardTitle>
+                <CardDescription className="line-clamp-2">{deck.description || "暂无简介"}</CardDescription>
+              </CardHeader>
+              <CardContent className="flex-1 text-sm text-muted-foreground space-y-1">
+                <p>{deck.wordCount} 个单词 · 由 {deck.ownerName} 分享</p>
+                <p className="flex items-center"><Users className="h-4 w-4 mr-1" />{deck.subscriberCount} 人订阅</p>
+              </CardContent>
+              <CardFooter className="gap-2">
+                {!deck.isOwn && (
+                  <Button
+                    size="sm"
+                    variant={deck.isSubscribed ? "secondary" : "default"}
+                    disabled={subscribeMutation.isPending}
+                    onClick={() => subscribeMutation.mutate({ deck, subscribe: !deck.isSubscribed })}
+                  >
+                    {deck.isSubscribed ? <><BookmarkCheck className="h-4 w-4 mr-1" />已订阅</> : <><BookmarkPlus className="h-4 w-4 mr-1" />订阅</>}
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" disabled={forkMutation.isPending} onClick={() => forkMutation.mutate(deck)}>
+                  <GitFork className="h-4 w-4 mr-1" />复制
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <DeckDetailDialog deckId={selectedDeckId} onClose={() => setSelectedDeckId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle2, XCircle, ChevronLeft, ChevronRight } from "lucide-react";
+import { REVIEW_GRADES, type StudySessionDetail, type StudySessionPage } from "@shared/schema";
+import { CARD_TEMPLATE_LABELS } from "@/components/word-card";
+import { EXERCISE_TYPE_LABELS, type ExerciseType } from "@/components/practice-exercise";
+import { formatDuration } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+
+const SESSION_TYPE_LABELS: Record<string, string> = {
+  "study": "单词学习",
+  "general_practice": "综合练习",
+  "targeted_practice": "巩固练习",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  "active": "未完成",
+  "completed": "已完成",
+};
+
+function gradeLabel(quality: number): string {
+  if (quality < REVIEW_GRADES.hard) return "重来";
+  if (quality < REVIEW_GRADES.good) return "困难";
+  if (quality < REVIEW_GRADES.easy) return "良好";
+  return "简单";
+}
+
+// One answer of a session as shown in the drill-down
+type AnswerRow = {
+  key: string;
+  word: string;
+  kind: string;
+  answer: string;
+  correctAnswer?: string;
+  isCorrect: boolean;
+};
+
+/**
+ * Answers of a session in the order they were given. Practice sessions use their
+ * recorded practice results; study sessions the grade of each reviewed card.
+ */
+function toAnswerRows(session: StudySessionDetail): AnswerRow[] {
+  if (session.sessionType !== "study" && session.practiceResults.length > 0) {
+    return session.practiceResults.map(result => ({
+      key: result.id,
+      word: result.word.word,
+      kind: EXERCISE_TYPE_LABELS[result.exerciseType as ExerciseType] ?? result.exerciseType,
+      answer: result.userAnswer ?? "",
+      correctAnswer: result.correctAnswer,
+      isCorrect: result.isCorrect,
+    }));
+  }
+  return session.items.flatMap((item, index) => {
+    if (!item.result) return [];
+    const { quality, userAnswer, isCorrect } = item.result;
+    return [{
+      key: `${item.wordId}-${index}`,
+      word: item.word.word,
+      kind: item.exercise
+        ? EXERCISE_TYPE_LABELS[item.exercise.type as ExerciseType] ?? item.exercise.type
+        : CARD_TEMPLATE_LABELS[item.template ?? "recognition"],
+      answer: quality !== undefined ? gradeLabel(quality) : userAnswer ?? "",
+      correctAnswer: item.exercise?.correctAnswer,
+      isCorrect: quality !== undefined ? quality >= REVIEW_GRADES.hard : !!isCorrect,
+    }];
+  });
+}
+
+function SessionDetailDialog({ sessionId, onClose }: { sessionId: string | null; onClose: () => void }) {
+  const { data: session, isLoading } = useQuery<StudySessionDetail>({
+    queryKey: ["/api/study-sessions", sessionId],
+    enabled: !!sessionId,
+  });
+
+  const answers = session ? toAnswerRows(session) : [];
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session ? SESSION_TYPE_LABELS[session.sessionType] ?? session.sessionType : "学习详情"}</DialogTitle>
+          {session && (
+            <DialogDescription>
+              {new Date(session.createdAt).toLocaleString()} · 正确率 {Math.round(session.accuracy * 100)}% · 用时 {formatDuration(session.timeSpent)} · 新词 {session.newWords} 个 · 复习 {session.reviewedWords} 个
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {isLoading ? (
+          <div className="space-y-2">{[...Array(4)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}</div>
+        ) : answers.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">这次学习还没有作答记录。</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>单词</TableHead>
+                <TableHead>题型</TableHead>
+                <TableHead>作答</TableHead>
+                <TableHead>正确答案</TableHead>
+                <TableHead className="w-12"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {answers.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.word}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.kind}</TableCell>
+                  <TableCell>{row.answer || <span className="text-muted-foreground">未作答</span>}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.correctAnswer ?? "—"}</TableCell>
+                  <TableCell>
+                    {row.isCorrect
+                      ? <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      : <XCircle className="h-4 w-4 text-destructive" />}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function History() {
+  const [sessionType, setSessionType] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (sessionType !== "all") params.set("type", sessionType);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  // Sessions are written while studying on any device, so always refetch
+  const { data, isLoading } = useQuery<StudySessionPage>({
+    queryKey: [`/api/study-sessions?${params}`],
+    staleTime: 0,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">学习记录</h1>
+        <p className="text-muted-foreground mt-2">查看过去的每一次学习和练习，以及每道题的作答情况。</p>
+      </div>
+
+      <Card>
+        <CardHeader className="border-b">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <CardTitle className="text-sm font-medium">类型</CardTitle>
+              <Select value={sessionType} onValueChange={(value) => updateFilter(() => setSessionType(value))}>
+                <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">全部</SelectItem>
+                  {Object.entries(SESSION_TYPE_LABELS).map(([type, name]) => (
+                    <SelectItem key={type} value={type}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <CardTitle className="text-sm font-medium">开始日期</CardTitle>
+              <Input type="date" value={from} max={to || undefined} onChange={(e) => updateFilter(() => setFrom(e.target.value))} className="w-44" />
+            </div>
+            <div className="space-y-1">
+              <CardTitle className="text-sm font-medium">结束日期</CardTitle>
+              <Input type="date" value={to} min={from || undefined} onChange={(e) => updateFilter(() => setTo(e.target.value))} className="w-44" />
+            </div>
+            {(sessionType !== "all" || from || to) && (
+              <Button variant="ghost" onClick={() => updateFilter(() => { setSessionType("all"); setFrom(""); setTo(""); })}>清除筛选</Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 space-y-2">{[...Array(5)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}</div>
+          ) : !data || data.sessions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-16">没有符合条件的学习记录。</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>时间</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead>单词数</TableHead>
+                  <TableHead>正确率</TableHead>
+                  <TableHead>用时</TableHead>
+                  <TableHead>状态</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.sessions.map(session => (
+                  <TableRow key={session.id} className="cursor-pointer" onClick={() => setSelectedSessionId(session.id)}>
+                    <TableCell>{new Date(session.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{SESSION_TYPE_LABELS[session.sessionType] ?? session.sessionType}</TableCell>
+                    <TableCell>{session.wordsLearned}</TableCell>
+                    <TableCell>{session.status === "completed" ? `${Math.round(session.accuracy * 100)}%` : "—"}</TableCell>
+                    <TableCell>{session.status === "completed" ? formatDuration(session.timeSpent) : "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={session.status === "completed" ? "secondary" : "outline"}>
+                        {STATUS_LABELS[session.status] ?? session.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {data && data.total > data.pageSize && (
+        <div className="flex items-center justify-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="h-4 w-4 mr-1" />上一页
+          </Button>
+          <span className="text-sm text-muted-foreground">第 {page} / {pageCount} 页，共 {data.total} 条</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+            下一页<ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
+      <SessionDetailDialog sessionId={selectedSessionId} onClose={() => setSelectedSessionId(null)} />
+    </div>
+  );
+}
@@ -9,13 +9,15 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import type { StudyPlan } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { CARD_TEMPLATES, type StudyPlan, type UserSettings, type SchedulerParamsReport, type NewWordOrder, type CardTemplate, type CollectionWithWords } from "@shared/schema";
+import { TRASH_RETENTION_DAYS } from "@shared/trash";
+import { CARD_TEMPLATE_LABELS } from "@/components/word-card";
+import { apiRequest, HttpError } from "@/lib/queryClient";
 import { Badge } from "@/components/ui/badge";
 import { List, Trash2, Edit, Power } from "lucide-react";
 
 // Component to display the list of saved plans
-function PlanList({ plans, onActivate, onDelete, onEdit }: { plans: StudyPlan[], onActivate: (id: string) => void, onDelete: (id: string) => void, onEdit: (plan: StudyPlan) => void }) {
+function PlanList({ plans, collections, onActivate, onDelete, onEdit }: { plans: StudyPlan[], collections: CollectionWithWords[], onActivate: (id: string) => void, onDelete: (id: string) => void, onEdit: (plan: StudyPlan) => void }) {
   return (
     <Card>
       <CardHeader>
@@ -27,7 +29,7 @@ function PlanList({ plans, onActivate, onDelete, onEdit }: { plans: StudyPlan[],
           <div key={plan.id} className="flex items-center justify-between p-3 rounded-lg border bg-background">
             <div className="flex flex-col">
                 <span className="font-semibold">{plan.name}</span>
-                <span className="text-xs text-muted-foreground">{plan.targetCategory} / 每日{plan.dailyWordCount}词</span>
+                <span className="text-xs text-muted-foreground">{collections.find(c => c.id === plan.targetCollectionId)?.name ?? plan.targetCategory} / 每日{plan.dailyWordCount}词</span>
             </div>
             <div className="flex items-center gap-2">
               {plan.isActive ? (
@@ -48,7 +50,15 @@ function PlanList({ plans, onActivate, onDelete, onEdit }: { plans: StudyPlan[],
 export default function Plan() {
   const [dailyWordCount, setDailyWordCount] = useState([20]);
   const [studyDuration, setStudyDuration] = useState([30]);
+  const [maxReviewsPerDay, setMaxReviewsPerDay] = useState([100]);
+  const [desiredRetention, setDesiredRetention] = useState([0.9]);
+  const [learningSteps, setLearningSteps] = useState("1 10");
+  const [relearningSteps, setRelearningSteps] = useState("10");
+  const [newWordOrder, setNewWordOrder] = useState<NewWordOrder>("frequency");
+  const [cardTemplates, setCardTemplates] = useState<CardTemplate[]>(["recognition"]);
   const [targetCategory, setTargetCategory] = useState("junior");
+  // "none" studies the target category
+  const [targetCollectionId, setTargetCollectionId] = useState("none");
   const [reviewStrategy, setReviewStrategy] = useState("spaced");
   const [studyFocus, setStudyFocus] = useState<string[]>(["vocabulary", "spelling", "context"]);
   const [weeklySchedule, setWeeklySchedule] = useState<boolean[]>([true, true, true, true, true, true, false]);
@@ -64,6 +74,15 @@ export default function Plan() {
     queryFn: () => apiRequest("GET", "/api/study-plans").then(res => res.json()),
   });
 
+  const { data: ownCollections = [] } = useQuery<CollectionWithWords[]>({
+    queryKey: ["/api/collections"],
+  });
+  const { data: subscribedDecks = [] } = useQuery<CollectionWithWords[]>({
+    queryKey: ["/api/decks/subscribed"],
+  });
+  // Plans can study the user's own collections and the decks they subscribed to
+  const collections = [...ownCollections, ...subscribedDecks];
+
   // Fetch the single ACTIVE plan to populate the form
   const { data: activePlan } = useQuery<StudyPlan>({
     queryKey: ["/api/study-plans/active"],
@@ -79,7 +98,20 @@ export default function Plan() {
       setPlanName(planToDisplay.name);
       setDailyWordCount([planToDisplay.dailyWordCount]);
       setStudyDuration([planToDisplay.studyDuration]);
+      setMaxReviewsPerDay([planToDisplay.maxReviewsPerDay]);
+      setDesiredRetention([planToDisplay.desiredRetention]);
+      setNewWordOrder(planToDisplay.newWordOrder as NewWordOrder);
+      if (Array.isArray(planToDisplay.cardTemplates)) {
+        setCardTemplates(planToDisplay.cardTemplates);
+      }
+      if (Array.isArray(planToDisplay.learningSteps)) {
+        setLearningSteps(planToDisplay.learningSteps.join(" "));
+      }
+      if (Array.isArray(planToDisplay.relearningSteps)) {
+        setRelearningSteps(planToDisplay.relearningSteps.join(" "));
+      }
       setTargetCategory(planToDisplay.targetCategory);
+      setTargetCollectionId(planToDisplay.targetCollectionId ?? "none");
       setReviewStrategy(planToDisplay.reviewStrategy);
       if (Array.isArray(planToDisplay.studyFocus)) {
         setStudyFocus(planToDisplay.studyFocus);
@@ -90,10 +122,46 @@ export default function Plan() {
     }
   }, [activePlan, editingPlanId, allPlans]);
 
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/users/me/settings"],
+  });
+
+  const { data: schedulerParams } = useQuery<SchedulerParamsReport>({
+    queryKey: ["/api/scheduler/params"],
+    enabled: settings?.schedulerAlgorithm === "sm2",
+  });
+
+  // "1 10" or "1, 10" -> [1, 10]
+  const parseSteps = (value: string) => value.split(/[\s,，]+/).filter(Boolean).map(Number);
+
+  const formatPercent = (value: number | null) => value === null ? "-" : `${Math.round(value * 100)}%`;
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (updates: Partial<UserSettings>) => apiRequest("PATCH", "/api/users/me/settings", updates),
+    onSuccess: (_, updates) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/settings"] });
+      if (updates.schedulerAlgorithm) {
+        toast({ title: "复习算法已更新", description: "新的算法将从下一次复习开始生效" });
+      } else {
+        toast({ title: "设置已更新" });
+      }
+    },
+  });
+
   const mutationOptions = {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/study-plans"] });
       queryClient.invalidateQueries({ queryKey: ["/api/study-plans/active"] });
+      // Review caps and fitted parameters depend on the active plan
+      queryClient.invalidateQueries({ queryKey: ["/api/words-for-review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/params"] });
+    },
+    onError: async (error: Error) => {
+      let description = "保存失败，请检查计划设置后再试。";
+      if (error instanceof HttpError) {
+        description = (await error.response.json().catch(() => null))?.message || description;
+      }
+      toast({ title: "操作失败", description, variant: "destructive" });
     },
   };
 
@@ -121,7 +189,7 @@ export default function Plan() {
     mutationFn: (id: string) => apiRequest("DELETE", `/api/study-plans/${id}`),
     ...mutationOptions,
     onSuccess: () => {
-      toast({ title: "学习计划已删除" });
+      toast({ title: "学习计划已移到回收站", description: `${TRASH_RETENTION_DAYS} 天内可以在回收站中恢复。` });
       mutationOptions.onSuccess();
     },
   });
@@ -139,6 +207,11 @@ export default function Plan() {
     setStudyFocus(prev => checked ? [...prev, focus] : prev.filter(f => f !== focus));
   };
 
+  // Keeps the templates in their canonical order; at least one stays enabled
+  const handleTemplateChange = (template: CardTemplate, checked: boolean) => {
+    setCardTemplates(prev => CARD_TEMPLATES.filter(t => t === template ? checked : prev.includes(t)));
+  };
+
   const handleScheduleChange = (dayIndex: number, checked: boolean) => {
     setWeeklySchedule(prev => {
       const newSchedule = [...prev];
@@ -151,8 +224,15 @@ export default function Plan() {
     const planData: Partial<StudyPlan> = {
       name: planName,
       targetCategory,
+      targetCollectionId: targetCollectionId === "none" ? null : targetCollectionId,
       dailyWordCount: dailyWordCount[0],
       studyDuration: studyDuration[0],
+      maxReviewsPerDay: maxReviewsPerDay[0],
+      desiredRetention: desiredRetention[0],
+      learningSteps: parseSteps(learningSteps),
+      relearningSteps: parseSteps(relearningSteps),
+      newWordOrder,
+      cardTemplates,
       reviewStrategy,
       studyFocus,
       weeklySchedule,
@@ -174,7 +254,14 @@ export default function Plan() {
     setPlanName("新计划 - " + new Date().toLocaleDateString());
     setDailyWordCount([20]);
     setStudyDuration([30]);
+    setMaxReviewsPerDay([100]);
+    setDesiredRetention([0.9]);
+    setLearningSteps("1 10");
+    setRelearningSteps("10");
+    setNewWordOrder("frequency");
+    setCardTemplates(["recognition"]);
     setTargetCategory("junior");
+    setTargetCollectionId("none");
     setReviewStrategy("spaced");
     setStudyFocus(["vocabulary", "spelling", "context"]);
     setWeeklySchedule([true, true, true, true, true, true, false]);
@@ -189,7 +276,7 @@ export default function Plan() {
         <p className="text-muted-foreground">管理、创建并切换你的学习计划。</p>
       </div>
 
-      <PlanList plans={allPlans} onActivate={activatePlanMutation.mutate} onDelete={deletePlanMutation.mutate} onEdit={handleEdit} />
+      <PlanList plans={allPlans} collections={collections} onActivate={activatePlanMutation.mutate} onDelete={deletePlanMutation.mutate} onEdit={handleEdit} />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 space-y-6">
@@ -207,7 +294,7 @@ export default function Plan() {
               </div>
               <div>
                 <Label>学习阶段</Label>
-                <Select value={targetCategory} onValueChange={setTargetCategory}>
+                <Select value={targetCategory} onValueChange={setTargetCategory} disabled={targetCollectionId !== "none"}>
                   <SelectTrigger><SelectValue /></SelectTrigger>
                   <SelectContent>
                     <SelectItem value="junior">初中阶段</SelectItem>
@@ -217,6 +304,31 @@ export default function Plan() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label>单词合集</Label>
+                <Select value={targetCollectionId} onValueChange={setTargetCollectionId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">不限（按学习阶段选词）</SelectItem>
+                    {collections.map(collection => (
+                      <SelectItem key={collection.id} value={collection.id}>{collection.name}（{collection.wordIds.length}词）</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">选择合集后，新单词只从该合集中选取。在单词库中可以创建合集，在卡组广场可以订阅别人分享的卡组。</p>
+              </div>
+              <div>
+                <Label>新单词顺序</Label>
+                <Select value={newWordOrder} onValueChange={(value) => setNewWordOrder(value as NewWordOrder)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="frequency">常用词优先</SelectItem>
+                    <SelectItem value="difficulty">简单词优先</SelectItem>
+                    <SelectItem value="alphabetical">按字母顺序</SelectItem>
+                    <SelectItem value="random">随机顺序</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                  <div>
                   <Label>每日新单词数量</Label>
@@ -232,6 +344,32 @@ export default function Plan() {
                     <span className="font-semibold">{studyDuration[0]}</span>
                   </div>
                 </div>
+                <div>
+                  <Label>每日复习上限</Label>
+                  <div className="flex items-center space-x-3">
+                    <Slider value={maxReviewsPerDay} onValueChange={setMaxReviewsPerDay} max={500} min={10} step={10} />
+                    <span className="font-semibold">{maxReviewsPerDay[0]}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">超出上限的到期单词顺延到之后几天复习</p>
+                </div>
+                <div>
+                  <Label>目标记忆保持率</Label>
+                  <div className="flex items-center space-x-3">
+                    <Slider value={desiredRetention} onValueChange={setDesiredRetention} max={0.99} min={0.7} step={0.01} />
+                    <span className="font-semibold">{formatPercent(desiredRetention[0])}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">越高复习越频繁，记得越牢</p>
+                </div>
+                <div>
+                  <Label>新词学习步骤 (分钟)</Label>
+                  <Input value={learningSteps} onChange={(e) => setLearningSteps(e.target.value)} placeholder="例如：1 10" />
+                  <p className="text-xs text-muted-foreground mt-1">新单词在当天按这些间隔重复出现，之后才按天安排复习</p>
+                </div>
+                <div>
+                  <Label>遗忘重学步骤 (分钟)</Label>
+                  <Input value={relearningSteps} onChange={(e) => setRelearningSteps(e.target.value)} placeholder="例如：10" />
+                  <p className="text-xs text-muted-foreground mt-1">复习时忘记的单词在当天按这些间隔重新学习</p>
+                </div>
               </div>
               <div>
                 <Label>学习重点</Label>
@@ -249,6 +387,22 @@ export default function Plan() {
                   ))}
                 </div>
               </div>
+              <div>
+                <Label>卡片类型</Label>
+                <p className="text-xs text-muted-foreground mb-2">每种类型单独安排复习</p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {CARD_TEMPLATES.map(template => (
+                    <label key={template} className="flex items-center space-x-2">
+                      <Checkbox
+                        checked={cardTemplates.includes(template)}
+                        disabled={cardTemplates.length === 1 && cardTemplates.includes(template)}
+                        onCheckedChange={(checked) => handleTemplateChange(template, checked as boolean)}
+                      />
+                      <span className="text-sm">{CARD_TEMPLATE_LABELS[template]}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -262,6 +416,81 @@ export default function Plan() {
               </Button>
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>复习算法</CardTitle>
+              <CardDescription>决定每个单词下次复习的时间，适用于你的所有计划。</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RadioGroup
+                value={settings?.schedulerAlgorithm ?? "sm2"}
+                onValueChange={(value) => updateSettingsMutation.mutate({ schedulerAlgorithm: value as UserSettings["schedulerAlgorithm"] })}
+                disabled={!settings || updateSettingsMutation.isPending}
+                className="space-y-3"
+              >
+                <label className="flex items-start space-x-2">
+                  <RadioGroupItem value="sm2" className="mt-1" />
+                  <span><span className="text-sm font-medium">SM-2</span><span className="block text-xs text-muted-foreground">经典间隔重复算法，按固定规则延长间隔</span></span>
+                </label>
+                <label className="flex items-start space-x-2">
+                  <RadioGroupItem value="fsrs" className="mt-1" />
+                  <span><span className="text-sm font-medium">FSRS</span><span className="block text-xs text-muted-foreground">根据记忆稳定性和难度预测遗忘，复习次数更少</span></span>
+                </label>
+              </RadioGroup>
+              {settings?.schedulerAlgorithm === "sm2" && schedulerParams && (
+                <div className="mt-4 p-3 rounded-lg bg-muted/50 space-y-1 text-sm">
+                  <p className="font-medium">个性化参数</p>
+                  {schedulerParams.isDefault ? (
+                    <p className="text-xs text-muted-foreground">复习记录较少（{schedulerParams.sampleSize} 次），暂时使用默认参数。</p>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">根据你的 {schedulerParams.sampleSize} 次复习记录调整，使记忆保持率接近 {formatPercent(schedulerParams.targetRetention)}。</p>
+                  )}
+                  <div className="flex justify-between"><span className="text-muted-foreground">间隔系数</span><span>×{schedulerParams.params.intervalModifier.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">熟练度奖励</span><span>{schedulerParams.params.easeBonus.toFixed(3)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">实际保持率</span><span>{formatPercent(schedulerParams.observedRetention)}</span></div>
+                  <div className="flex justify-between"><span className="text-muted-foreground">预计保持率</span><span>{formatPercent(schedulerParams.estimatedRetention)}</span></div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>难记词</CardTitle>
+              <CardDescription>复习时反复忘记的单词会被标记为难记词，可在单词库中集中攻克。</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>遗忘次数阈值</Label>
+                <Select
+                  value={String(settings?.leechThreshold ?? 8)}
+                  onValueChange={(value) => updateSettingsMutation.mutate({ leechThreshold: Number(value) })}
+                  disabled={!settings || updateSettingsMutation.isPending}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {[4, 6, 8, 10, 12, 16].map(threshold => (
+                      <SelectItem key={threshold} value={String(threshold)}>{threshold} 次</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>达到阈值后</Label>
+                <Select
+                  value={settings?.leechAction ?? "tag"}
+                  onValueChange={(value) => updateSettingsMutation.mutate({ leechAction: value as UserSettings["leechAction"] })}
+                  disabled={!settings || updateSettingsMutation.isPending}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tag">仅标记</SelectItem>
+                    <SelectItem value="suspend">标记并暂停复习</SelectItem>
+                    <SelectItem value="vocabularyBook">标记并加入生词本</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
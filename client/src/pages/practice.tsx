@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -6,31 +6,60 @@ import { Progress } from "@/components/ui/progress";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import type { Word } from "@shared/schema";
+import type { StudySession, StudySessionDetail, StudySessionItem, Word } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
-import PracticeExercise from "@/components/practice-exercise";
+import PracticeExercise, { EXERCISE_TYPE_LABELS } from "@/components/practice-exercise";
 import type { ExerciseQuestion, ExerciseType } from "@/components/practice-exercise";
 import { generateQuestion } from "@/lib/question-generator";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import ShortcutCheatsheet, { type ShortcutHint } from "@/components/shortcut-cheatsheet";
 
-const EXERCISE_TYPE_MAP: Record<ExerciseType, string> = {
-  "multiple-choice": "选择题",
-  "fill-blank": "填空题",
-  "translation": "翻译题",
-  "spelling": "拼写题",
-  "listening": "听力题",
-};
+const PRACTICE_SHORTCUTS: ShortcutHint[] = [
+  { keys: ["A", "B", "C", "D"], label: "选择选项" },
+  { keys: ["R"], label: "播放发音" },
+  { keys: ["空格", "Enter"], label: "下一题" },
+];
+
+const ACTIVE_SESSION_KEY = "/api/study-sessions/active?type=general_practice&type=targeted_practice";
+
+function toSessionItem(question: ExerciseQuestion): StudySessionItem {
+  const { word, senseId, type, question: prompt, options, correctAnswer, userAnswer, isCorrect } = question;
+  return {
+    wordId: word.id,
+    senseId,
+    exercise: { type, question: prompt, options, correctAnswer },
+    result: userAnswer === undefined ? undefined : { userAnswer, isCorrect },
+  };
+}
+
+function toQuestion({ word, senseId, exercise, result }: StudySessionDetail["items"][number]): ExerciseQuestion {
+  const type = (exercise?.type ?? "spelling") as ExerciseType;
+  return {
+    id: `${word.id}-${type}`,
+    word,
+    senseId,
+    type,
+    question: exercise?.question ?? "",
+    options: exercise?.options,
+    correctAnswer: exercise?.correctAnswer ?? word.word,
+    userAnswer: result?.userAnswer,
+    isCorrect: result?.isCorrect,
+  };
+}
 
 export default function Practice() {
   const [view, setView] = useState<"setup" | "practicing">("setup");
-  const [selectedTypes, setSelectedTypes] = useState<ExerciseType[]>(Object.keys(EXERCISE_TYPE_MAP) as ExerciseType[]);
+  const [selectedTypes, setSelectedTypes] = useState<ExerciseType[]>(Object.keys(EXERCISE_TYPE_LABELS) as ExerciseType[]);
   const [questions, setQuestions] = useState<ExerciseQuestion[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [isAnswered, setIsAnswered] = useState(false);
   const [showCorrection, setShowCorrection] = useState(false);
-  const [score, setScore] = useState(0);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [questionShownAt, setQuestionShownAt] = useState(Date.now());
+  // 最近一次保存作答的请求，完成练习前需等待它结束，服务器才能统计到所有答案
+  const pendingResultRef = useRef<Promise<unknown>>(Promise.resolve());
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -38,15 +67,31 @@ export default function Practice() {
   const [location] = useLocation();
   const practiceWordsFromState = (window.history.state)?.practiceWords as Word[] | undefined;
 
-  // 创建学习会话的mutation
+  // 未完成的练习（包括在其他设备上开始的）会被恢复，而不是重新出题
+  const { data: activeSession, isLoading: isLoadingActive } = useQuery<StudySessionDetail | null>({
+    queryKey: [ACTIVE_SESSION_KEY],
+    staleTime: 0,
+    gcTime: 0,
+    enabled: !practiceWordsFromState,
+  });
+
+  useEffect(() => {
+    if (!activeSession || sessionId) return;
+    const resumedQuestions = activeSession.items.map(toQuestion);
+    const current = resumedQuestions[activeSession.currentIndex];
+    setQuestions(resumedQuestions);
+    setCurrentQuestionIndex(activeSession.currentIndex);
+    setIsAnswered(current?.userAnswer !== undefined);
+    setShowCorrection(current?.userAnswer !== undefined);
+    setSessionId(activeSession.id);
+    setView("practicing");
+    toast({ title: "已恢复上次未完成的练习", description: `还剩 ${resumedQuestions.length - activeSession.currentIndex} 道题` });
+  }, [activeSession]);
+
+  // 创建学习会话的mutation，题目随会话一起保存在服务器上
   const createSessionMutation = useMutation({
-    mutationFn: async (sessionData: {
-      sessionType: string;
-      wordsLearned: number;
-      timeSpent: number;
-      accuracy: number;
-    }) => {
-      const response = await apiRequest("POST", "/api/study-sessions", sessionData);
+    mutationFn: async ({ sessionType, questions }: { sessionType: string; questions: ExerciseQuestion[] }): Promise<StudySession> => {
+      const response = await apiRequest("POST", "/api/study-sessions", { sessionType, items: questions.map(toSessionItem) });
       return response.json();
     },
     onSuccess: (session) => {
@@ -54,6 +99,18 @@ export default function Practice() {
     }
   });
 
+  // 每次作答或翻页后保存进度，刷新页面后可以继续
+  useEffect(() => {
+    if (!sessionId || view !== "practicing") return;
+    apiRequest("PUT", `/api/study-sessions/${sessionId}`, { items: questions.map(toSessionItem), currentIndex: currentQuestionIndex })
+      .catch(error => console.error("Failed to save practice session:", error));
+  }, [sessionId, questions, currentQuestionIndex]);
+
+  // 每道题开始计时
+  useEffect(() => {
+    setQuestionShownAt(Date.now());
+  }, [currentQuestionIndex, view]);
+
   // 保存练习结果的mutation
   const savePracticeResultMutation = useMutation({
     mutationFn: async (result: {
@@ -74,7 +131,9 @@ export default function Practice() {
 
   const { data: practiceWordsFromAPI, isLoading: isLoadingPracticeWords } = useQuery<Word[]>({
     queryKey: ["words-for-review"],
-    queryFn: () => apiRequest("GET", "/api/words-for-review").then(res => res.json()),
+    // Due cards of the same word (one per card template) are practised once
+    queryFn: () => apiRequest("GET", "/api/words-for-review").then(res => res.json())
+      .then((cards: Word[]) => cards.filter((card, index) => cards.findIndex(c => c.id === card.id) === index)),
     staleTime: 5 * 60 * 1000,
     enabled: !practiceWordsFromState, // 只有当没有来自总结页的单词时才调用API
   });
@@ -88,7 +147,7 @@ export default function Practice() {
     staleTime: Infinity,
   });
 
-  const handleStartPractice = () => {
+  const handleStartPractice = async () => {
     if (!practiceWords || !distractorWords || selectedTypes.length === 0) return;
 
     const generatedQuestions = practiceWords
@@ -100,17 +159,20 @@ export default function Practice() {
       return;
     }
 
-    // 创建练习会话
-    createSessionMutation.mutate({
-      sessionType: practiceWordsFromState ? "targeted_practice" : "general_practice",
-      wordsLearned: generatedQuestions.length,
-      timeSpent: 0,
-      accuracy: 0,
-    });
+    // 创建练习会话；会话建好后才出题，这样每道题的作答都会记入会话
+    try {
+      await createSessionMutation.mutateAsync({
+        sessionType: practiceWordsFromState ? "targeted_practice" : "general_practice",
+        questions: generatedQuestions,
+      });
+    } catch (error) {
+      console.error("Failed to create practice session:", error);
+      toast({ title: "无法开始练习", description: "请稍后重试", variant: "destructive" });
+      return;
+    }
 
     setQuestions(generatedQuestions);
     setCurrentQuestionIndex(0);
-    setScore(0);
     setIsAnswered(false);
     setShowCorrection(false);
     setView("practicing");
@@ -122,19 +184,18 @@ export default function Practice() {
     const isCorrect = answer.toLowerCase() === currentQuestion.correctAnswer.toLowerCase();
 
     setQuestions(prev => prev.map((q, index) => index === currentQuestionIndex ? { ...q, userAnswer: answer, isCorrect } : q));
-    if (isCorrect) setScore(score + 1);
 
     // 保存练习结果（只有当有sessionId时才保存）
     if (sessionId) {
-      savePracticeResultMutation.mutate({
+      pendingResultRef.current = savePracticeResultMutation.mutateAsync({
         sessionId,
         wordId: currentQuestion.word.id,
         exerciseType: currentQuestion.type,
         isCorrect,
         userAnswer: answer,
         correctAnswer: currentQuestion.correctAnswer,
-        timeSpent: 0, // 暂时设为0，后续可以添加计时功能
-      });
+        timeSpent: Date.now() - questionShownAt,
+      }).catch(() => undefined);
     }
 
     toast({ title: isCorrect ? "正确！" : "不正确", description: isCorrect ? "" : `正确答案: ${currentQuestion.correctAnswer}`, variant: isCorrect ? "default" : "destructive" });
@@ -148,23 +209,28 @@ export default function Practice() {
       setIsAnswered(false);
       setShowCorrection(false);
     } else {
-      // 练习完成，更新会话的最终统计
-      const accuracy = Math.round((score / questions.length) * 100);
-
-      if (sessionId) {
-        // 这里可以添加更新会话最终数据的API调用
-        // 目前我们先跳过，因为会话已经创建了
-      }
+      // 练习完成，正确率和用时由服务器根据保存的作答统计
+      const completedSessionId = sessionId;
+      const completion: Promise<StudySession | null> = completedSessionId
+        ? pendingResultRef.current
+            .then(() => apiRequest("PUT", `/api/study-sessions/${completedSessionId}`, { items: questions.map(toSessionItem), currentIndex: questions.length }))
+            .then(() => apiRequest("POST", `/api/study-sessions/${completedSessionId}/complete`))
+            .then(res => res.json())
+            .catch(error => {
+              console.error("Failed to complete practice session:", error);
+              return null;
+            })
+        : Promise.resolve(null);
 
       // 失效相关缓存
       queryClient.invalidateQueries({ queryKey: ["words-for-review"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
 
-      toast({
+      completion.then(session => toast({
         title: "练习完成！",
-        description: `你的得分是: ${score} / ${questions.length} (${accuracy}%)`,
+        description: session ? `你的正确率是: ${Math.round(session.accuracy * 100)}%` : undefined,
         duration: 5000
-      });
+      }));
       setView("setup");
       setSessionId(null); // 重置sessionId
     }
@@ -176,23 +242,25 @@ export default function Practice() {
     );
   };
 
-  const isLoading = isLoadingPracticeWords || isLoadingDistractors;
+  useKeyboardShortcuts({ "space": handleNextQuestion, "enter": handleNextQuestion }, view === "practicing" && isAnswered);
+
+  const isLoading = isLoadingActive || isLoadingPracticeWords || isLoadingDistractors;
 
   if (isLoading) {
     return <div className="text-center py-16">正在加载练习数据...</div>;
   }
 
-  if (!practiceWords || practiceWords.length === 0) {
-    return (
-      <div className="text-center py-16">
-        <h2 className="text-2xl font-bold text-foreground mb-4">没有需要练习的单词</h2>
-        <p className="text-muted-foreground mb-6">去学习一些新单词，或者稍后再回来复习吧！</p>
-        <Button onClick={() => window.location.href = "/wordbank"}>前往单词库</Button>
-      </div>
-    );
-  }
-
   if (view === "setup") {
+    if (!practiceWords || practiceWords.length === 0) {
+      return (
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-bold text-foreground mb-4">没有需要练习的单词</h2>
+          <p className="text-muted-foreground mb-6">去学习一些新单词，或者稍后再回来复习吧！</p>
+          <Button onClick={() => window.location.href = "/wordbank"}>前往单词库</Button>
+        </div>
+      );
+    }
+
     return (
       <div className="max-w-3xl mx-auto space-y-8">
         <div>
@@ -209,7 +277,7 @@ export default function Practice() {
             <CardDescription>选择你想要在本次练习中包含的题目类型。</CardDescription>
           </CardHeader>
           <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-4">
-            {Object.entries(EXERCISE_TYPE_MAP).map(([type, name]) => (
+            {Object.entries(EXERCISE_TYPE_LABELS).map(([type, name]) => (
               <div key={type} className="flex items-center space-x-2 p-3 rounded-lg bg-muted/50">
                 <Checkbox 
                   id={type} 
@@ -244,8 +312,8 @@ export default function Practice() {
             ))}
           </CardContent>
         </Card>
-        <Button onClick={handleStartPractice} size="lg" className="w-full" disabled={selectedTypes.length === 0}>
-          开始练习
+        <Button onClick={handleStartPractice} size="lg" className="w-full" disabled={selectedTypes.length === 0 || createSessionMutation.isPending}>
+          {createSessionMutation.isPending ? "正在准备..." : "开始练习"}
         </Button>
       </div>
     );
@@ -280,6 +348,7 @@ export default function Practice() {
           </Button>
         )}
       </div>
+      <ShortcutCheatsheet shortcuts={PRACTICE_SHORTCUTS} />
     </div>
   );
 }
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { WordRevisionDetail } from "@shared/schema";
+import { canManageCatalog } from "@shared/roles";
+import { RevisionDiff } from "@/components/word-history";
+import { apiRequest, HttpError } from "@/lib/queryClient";
+
+export default function Revisions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canReview = !!user && canManageCatalog(user);
+
+  const { data: revisions, isLoading } = useQuery<WordRevisionDetail[]>({
+    queryKey: ["/api/revisions/pending"],
+    enabled: canReview,
+    staleTime: 0,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ revision, approve }: { revision: WordRevisionDetail; approve: boolean }) =>
+      apiRequest("POST", `/api/revisions/${revision.id}/${approve ? "approve" : "reject"}`),
+    onSuccess: (_, { revision, approve }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/revisions/pending"] });
+      if (approve) queryClient.invalidateQueries({ queryKey: ["/api/words"] });
+      toast({ title: approve ? `已采纳对「${revision.before.word}」的修改` : "已拒绝这条建议" });
+    },
+    onError: async (error) => {
+      let description = "操作失败，请稍后再试。";
+      if (error instanceof HttpError) {
+        description = (await error.response.json().catch(() => null))?.message || description;
+      }
+      toast({ title: "操作失败", description, variant: "destructive" });
+    },
+  });
+
+  if (!canReview) {
+    return <p className="text-center text-muted-foreground py-16">只有编辑和管理员可以审核修改建议。</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">修改审核</h1>
+        <p className="text-muted-foreground mt-2">学习者对公共单词的修改建议会在这里等待审核，采纳后才会写入单词库。</p>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">{[...Array(2)].map((_, i) => <Skeleton key={i} className="h-40 w-full" />)}</div>
+      ) : !revisions || revisions.length === 0 ? (
+        <p className="text-center text-muted-foreground py-16">没有待审核的修改建议。</p>
+      ) : (
+        <div className="space-y-4">
+          {revisions.map(revision => (
+            <Card key={revision.id}>
+              <CardHeader>
+                <CardTitle>{revision.before.word}</CardTitle>
+                <CardDescription>
+                  {revision.authorName} 提交于 {new Date(revision.createdAt).toLocaleString()}
+                  {revision.comment && <> · {revision.comment}</>}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <RevisionDiff revision={revision} />
+              </CardContent>
+              <CardFooter className="gap-2 justify-end">
+                <Button variant="outline" size="sm" disabled={reviewMutation.isPending} onClick={() => reviewMutation.mutate({ revision, approve: false })}>
+                  <X className="h-4 w-4 mr-1" />拒绝
+                </Button>
+                <Button size="sm" disabled={reviewMutation.isPending} onClick={() => reviewMutation.mutate({ revision, approve: true })}>
+                  <Check className="h-4 w-4 mr-1" />采纳
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,48 @@
-import { useLocation, Link } from "wouter";
+import { useLocation, useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircle2, XCircle, HelpCircle, Target } from "lucide-react";
-import type { WordWithProgress } from "@shared/schema";
+import { REVIEW_GRADES, type StudySessionDetail, type Word } from "@shared/schema";
+import { formatDuration } from "@/lib/utils";
 
-// This type should match the one implicitly created in study.tsx
-type SessionWord = WordWithProgress & { result?: { quality: number } };
+type SummaryWord = Word & { result?: { quality: number } };
+
+/**
+ * Each card or exercise of the session with its first answer; cards re-queued during
+ * learning steps appear more than once in the session. Practice answers count as
+ * Good when correct and Again when not.
+ */
+function toSummaryWords(session: StudySessionDetail): SummaryWord[] {
+  const seen = new Set<string>();
+  return session.items
+    .filter(item => {
+      const key = `${item.wordId}:${item.template ?? item.exercise?.type}`;
+      return !seen.has(key) && seen.add(key);
+    })
+    .map(({ word, result }) => {
+      const quality = result?.quality ?? (result?.isCorrect === undefined ? undefined : result.isCorrect ? REVIEW_GRADES.good : REVIEW_GRADES.again);
+      return { ...word, result: quality === undefined ? undefined : { quality } };
+    });
+}
 
 export default function SessionSummary() {
   const [, setLocation] = useLocation();
-  
-  const { sessionWords } = (window.history.state) as { sessionWords?: SessionWord[] } || { sessionWords: [] };
+  const { id } = useParams<{ id: string }>();
+
+  const { data: session, isLoading } = useQuery<StudySessionDetail>({
+    queryKey: ["/api/study-sessions", id],
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-16">正在加载学习记录...</div>;
+  }
+
+  const sessionWords = session ? toSummaryWords(session) : [];
 
-  if (!sessionWords || sessionWords.length === 0) {
+  if (!session || sessionWords.length === 0) {
     return (
       <div className="text-center py-16">
         <h2 className="text-2xl font-bold text-foreground mb-4">没有学习记录</h2>
@@ -23,12 +52,13 @@ export default function SessionSummary() {
     );
   }
 
-  const correctWords = sessionWords.filter(w => w.result?.quality === 5);
-  const unfamiliarWords = sessionWords.filter(w => w.result?.quality === 3);
-  const incorrectWords = sessionWords.filter(w => w.result?.quality === 1);
+  // Good and Easy count as known, Hard as unfamiliar, Again as forgotten
+  const correctWords = sessionWords.filter(w => w.result && w.result.quality >= REVIEW_GRADES.good);
+  const unfamiliarWords = sessionWords.filter(w => w.result?.quality === REVIEW_GRADES.hard);
+  const incorrectWords = sessionWords.filter(w => w.result && w.result.quality < REVIEW_GRADES.hard);
   
-  const accuracy = Math.round(((correctWords.length + unfamiliarWords.length) / sessionWords.length) * 100);
-  const wordsForReview = [...incorrectWords, ...unfamiliarWords];
+  // Several cards of one word may need review; each word is practised once
+  const wordsForReview = [...incorrectWords, ...unfamiliarWords].filter((word, index, all) => all.findIndex(w => w.id === word.id) === index);
 
   return (
     <div className="max-w-4xl mx-auto space-y-8 py-8">
@@ -41,12 +71,15 @@ export default function SessionSummary() {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">掌握度</CardTitle>
+            <CardTitle className="text-sm font-medium">正确率</CardTitle>
             <Target className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{accuracy}%</div>
-            <p className="text-xs text-muted-foreground">共 {sessionWords.length} 个单词</p>
+            {/* The figures the server computed when the session was completed, as in the history */}
+            <div className="text-2xl font-bold">{Math.round(session.accuracy * 100)}%</div>
+            <p className="text-xs text-muted-foreground">
+              新词 {session.newWords} 个 · 复习 {session.reviewedWords} 个 · 用时 {formatDuration(session.timeSpent)}
+            </p>
           </CardContent>
         </Card>
         <Card>
@@ -79,8 +112,8 @@ export default function SessionSummary() {
             <CardDescription>这些是你觉得有点生疏的单词，建议稍后巩固。</CardDescription>
           </CardHeader>
           <CardContent className="flex flex-wrap gap-3">
-            {unfamiliarWords.map(word => (
-              <Badge key={word.id} variant="outline" className="text-base py-1 px-3 border-amber-500/50 text-amber-600">
+            {unfamiliarWords.map((word, index) => (
+              <Badge key={`${word.id}-${index}`} variant="outline" className="text-base py-1 px-3 border-amber-500/50 text-amber-600">
                 {word.word}
               </Badge>
             ))}
@@ -95,8 +128,8 @@ export default function SessionSummary() {
             <CardDescription>这些是你需要立即重点复习的单词。</CardDescription>
           </CardHeader>
           <CardContent className="flex flex-wrap gap-3">
-            {incorrectWords.map(word => (
-              <Badge key={word.id} variant="destructive" className="text-base py-1 px-3">
+            {incorrectWords.map((word, index) => (
+              <Badge key={`${word.id}-${index}`} variant="destructive" className="text-base py-1 px-3">
                 {word.word}
               </Badge>
             ))}
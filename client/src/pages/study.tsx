@@ -2,15 +2,54 @@ import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Check, X } from "lucide-react";
-import type { WordWithProgress, UserProgress } from "@shared/schema";
+import { Eye, Undo2 } from "lucide-react";
+import { REVIEW_GRADES, UNDO_HISTORY_SIZE, type StudyCard, type StudySession, type StudySessionDetail, type StudySessionItem, type ReviewGrade, type ReviewSubmission, type ReviewOutcome, type UndoOutcome } from "@shared/schema";
 import WordCard from "@/components/word-card";
+import { pickRandomSense } from "@shared/word-senses";
 import SessionWordList from "@/components/session-word-list";
 import { apiRequest } from "@/lib/queryClient";
-import { SpacedRepetitionScheduler, ReviewResult, ReviewSchedule } from "@/lib/spaced-repetition";
+import { useToast } from "@/hooks/use-toast";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+import ShortcutCheatsheet, { type ShortcutHint } from "@/components/shortcut-cheatsheet";
 
-// Define a type for words in the current session, including the user's feedback
-export type SessionWord = WordWithProgress & { result?: { quality: number } };
+// Define a type for cards in the current session, including the meaning asked about and the user's feedback
+export type SessionWord = StudyCard & { senseId?: string; result?: { quality: number } };
+
+// Cards of the same word with different templates are scheduled separately
+const cardKey = (card: StudyCard) => `${card.id}:${card.template}`;
+
+function toSessionItem(word: SessionWord): StudySessionItem {
+  return { wordId: word.id, template: word.template, senseId: word.senseId, result: word.result };
+}
+
+function toSessionWord({ word, template, senseId, result }: StudySessionDetail["items"][number]): SessionWord {
+  return { ...word, template: template ?? "recognition", senseId, result: result?.quality !== undefined ? { quality: result.quality } : undefined };
+}
+
+// Answer buttons shown once the back of the card is revealed, in shortcut order
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; hint: string; className: string }[] = [
+  { grade: REVIEW_GRADES.again, label: "重来", hint: "完全想不起来", className: "bg-destructive hover:bg-destructive/90 text-destructive-foreground" },
+  { grade: REVIEW_GRADES.hard, label: "困难", hint: "想了很久才想起", className: "bg-amber-500 hover:bg-amber-600 text-white" },
+  { grade: REVIEW_GRADES.good, label: "良好", hint: "稍加思考后想起", className: "bg-green-500 hover:bg-green-600 text-white" },
+  { grade: REVIEW_GRADES.easy, label: "简单", hint: "立刻就想起来了", className: "bg-blue-500 hover:bg-blue-600 text-white" },
+];
+
+const STUDY_SHORTCUTS: ShortcutHint[] = [
+  { keys: ["空格"], label: "显示答案 / 翻转卡片" },
+  ...GRADE_BUTTONS.map((button, index) => ({ keys: [String(index + 1)], label: button.label })),
+  { keys: ["R"], label: "播放发音" },
+  { keys: ["Z"], label: "撤销上一次评分" },
+];
+
+function playAudio(text: string) {
+  if ('speechSynthesis' in window) {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    speechSynthesis.speak(utterance);
+  }
+}
+
+const ACTIVE_SESSION_KEY = "/api/study-sessions/active?type=study";
 
 // Shuffles an array in place and returns it
 function shuffle<T>(array: T[]): T[] {
@@ -26,54 +65,99 @@ export default function Study() {
   const [sessionWords, setSessionWords] = useState<SessionWord[]>([]);
   const [isSessionInitialized, setIsSessionInitialized] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
-  const [sessionStartTime, setSessionStartTime] = useState<Date | null>(null);
+  const [cardShownAt, setCardShownAt] = useState(Date.now());
+  const [isFlipped, setIsFlipped] = useState(false);
+  // Grades are only offered once the learner has seen the back of the card
+  const [isRevealed, setIsRevealed] = useState(false);
+  // Session state before each grade that can still be undone, latest last; the server
+  // keeps only the last UNDO_HISTORY_SIZE reviews
+  const [undoStack, setUndoStack] = useState<{ words: SessionWord[]; index: number }[]>([]);
   const queryClient = useQueryClient();
+  const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  const { data: reviewWords, isLoading: isLoadingReview } = useQuery<WordWithProgress[]>({ 
+  // An unfinished session from an earlier visit, or from another device, is resumed
+  // before a new one is built; it is always fetched fresh
+  const { data: activeSession, isLoading: isLoadingActive } = useQuery<StudySessionDetail | null>({
+    queryKey: [ACTIVE_SESSION_KEY],
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const { data: reviewWords, isLoading: isLoadingReview } = useQuery<StudyCard[]>({ 
     queryKey: ["/api/words-for-review"],
     queryFn: () => apiRequest("GET", "/api/words-for-review").then(res => res.json()),
+    enabled: activeSession === null,
   });
 
-  const { data: newWords, isLoading: isLoadingNew } = useQuery<WordWithProgress[]>({ 
+  const { data: newWords, isLoading: isLoadingNew } = useQuery<StudyCard[]>({ 
     queryKey: ["/api/new-words-for-plan"],
     queryFn: () => apiRequest("GET", "/api/new-words-for-plan").then(res => res.json()),
+    enabled: activeSession === null,
   });
 
-  useEffect(() => {
-    if (reviewWords && newWords && !isSessionInitialized) {
-      const combined = [...reviewWords, ...newWords];
-      setSessionWords(shuffle(combined));
-      setCurrentWordIndex(0);
-      setIsSessionInitialized(true);
-    }
-  }, [reviewWords, newWords, isSessionInitialized]);
-
   const createStudySessionMutation = useMutation({
-    mutationFn: async (sessionData: { sessionType: string; wordsLearned: number; timeSpent: number; accuracy: number; }) => {
-      const response = await apiRequest("POST", "/api/study-sessions", sessionData);
+    mutationFn: async (words: SessionWord[]): Promise<StudySession> => {
+      const response = await apiRequest("POST", "/api/study-sessions", { sessionType: "study", items: words.map(toSessionItem) });
       return response.json();
     },
     onSuccess: (session) => {
       setSessionId(session.id);
-    }
+    },
+    onError: (error) => {
+      console.error("Failed to create study session:", error);
+      toast({ title: "无法保存学习进度", description: "本次评分仍会计入复习计划，但不会记录为学习会话", variant: "destructive" });
+    },
+    // The first card is shown once the session exists, so every grade counts toward it
+    onSettled: (_, __, words) => {
+      setSessionWords(words);
+    },
   });
 
   useEffect(() => {
-    if (sessionWords.length > 0 && !sessionId && !sessionStartTime) {
-      setSessionStartTime(new Date());
-      createStudySessionMutation.mutate({
-        sessionType: "study",
-        wordsLearned: sessionWords.length,
-        timeSpent: 0,
-        accuracy: 0,
-      });
+    if (isSessionInitialized) return;
+    if (activeSession) {
+      setSessionWords(activeSession.items.map(toSessionWord));
+      setCurrentWordIndex(activeSession.currentIndex);
+      setSessionId(activeSession.id);
+      setIsSessionInitialized(true);
+      toast({ title: "已恢复上次未完成的学习", description: `还剩 ${activeSession.items.length - activeSession.currentIndex} 张卡片` });
+    } else if (activeSession === null && reviewWords && newWords) {
+      // Each card asks about one meaning of its word, so every sense gets studied over time
+      // Fill-in-the-blank cards ask about a meaning with an example that contains the word
+      const words: SessionWord[] = shuffle([...reviewWords, ...newWords])
+        .map(card => ({ ...card, senseId: pickRandomSense(card, card.template === "cloze" ? card.word : undefined).id }));
+      setCurrentWordIndex(0);
+      setIsSessionInitialized(true);
+      if (words.length > 0) {
+        createStudySessionMutation.mutate(words);
+      }
     }
-  }, [sessionWords, sessionId, sessionStartTime, createStudySessionMutation]);
+  }, [activeSession, reviewWords, newWords, isSessionInitialized]);
+
+  // The queue and answers are saved after every change so the session survives a reload
+  useEffect(() => {
+    if (!sessionId) return;
+    apiRequest("PUT", `/api/study-sessions/${sessionId}`, { items: sessionWords.map(toSessionItem), currentIndex: currentWordIndex })
+      .catch(error => console.error("Failed to save study session:", error));
+  }, [sessionId, sessionWords, currentWordIndex]);
 
-  const updateProgressMutation = useMutation({
-    mutationFn: async ({ wordId, updates }: { wordId: string; updates: Partial<UserProgress> }) => {
-      return apiRequest("POST", `/api/progress/${wordId}`, updates);
+  const shownCard = sessionWords[currentWordIndex];
+  const shownCardKey = shownCard ? cardKey(shownCard) : null;
+
+  useEffect(() => {
+    setCardShownAt(Date.now());
+    setIsFlipped(false);
+    setIsRevealed(false);
+    // Listening cards prompt with the pronunciation only
+    if (shownCard?.template === "listening") playAudio(shownCard.word);
+  }, [currentWordIndex, shownCardKey]);
+
+  // The server computes the new schedule from the grade; we only report what the learner answered
+  const submitReviewMutation = useMutation({
+    mutationFn: async (review: ReviewSubmission): Promise<ReviewOutcome> => {
+      const response = await apiRequest("POST", "/api/reviews", { ...review, timezoneOffset: new Date().getTimezoneOffset() });
+      return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/words-for-review"] });
@@ -81,60 +165,138 @@ export default function Study() {
     },
   });
 
-  const handleFeedback = (quality: 1 | 3 | 5) => {
+  const handleFlip = () => {
+    setIsFlipped(flipped => !flipped);
+    setIsRevealed(true);
+  };
+
+  const handleFeedback = async (quality: ReviewGrade) => {
     const currentWord = sessionWords[currentWordIndex];
-    if (!currentWord) return;
+    if (!currentWord || !isRevealed || submitReviewMutation.isPending) return;
+
+    let updatedWords = sessionWords.map((word, index) => index === currentWordIndex ? { ...word, result: { quality } } : word);
+
+    try {
+      const { progress, becameLeech } = await submitReviewMutation.mutateAsync({ wordId: currentWord.id, template: currentWord.template, grade: quality, responseTime: Date.now() - cardShownAt, sessionId: sessionId ?? undefined });
+      if (becameLeech) {
+        toast({
+          title: `"${currentWord.word}" 已被标记为难记词`,
+          description: progress.isSuspended ? "已暂停复习，可在单词库的难记词中集中攻克" : "可在单词库的难记词中集中攻克",
+        });
+      }
+      // Words still in (re)learning steps come back later in this session
+      if (!progress.isSuspended && (progress.cardState === "learning" || progress.cardState === "relearning")) {
+        updatedWords = [...updatedWords, { ...currentWord, progress, result: undefined }];
+      }
+      setUndoStack(prev => [...prev, { words: sessionWords, index: currentWordIndex }].slice(-UNDO_HISTORY_SIZE));
+    } catch (error) {
+      console.error("Failed to submit review:", error);
+      // The card stays up so the grade can be given again
+      toast({ title: "评分提交失败", description: "请稍后重试", variant: "destructive" });
+      return;
+    }
 
-    const updatedWords = [...sessionWords];
-    updatedWords[currentWordIndex].result = { quality };
     setSessionWords(updatedWords);
+    nextWord(updatedWords);
+  };
+
+  const undoReviewMutation = useMutation({
+    mutationFn: async (): Promise<UndoOutcome> => {
+      const response = await apiRequest("POST", "/api/reviews/undo");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/words-for-review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/new-words-for-plan"] });
+    },
+  });
+
+  const canUndo = undoStack.length > 0 && !undoReviewMutation.isPending && !submitReviewMutation.isPending;
+
+  const handleUndo = async () => {
+    if (!canUndo) return;
+    const previous = undoStack[undoStack.length - 1];
+
+    try {
+      await undoReviewMutation.mutateAsync();
+    } catch (error) {
+      toast({ title: "撤销失败", description: "请稍后重试", variant: "destructive" });
+      return;
+    }
+
+    setUndoStack(prev => prev.slice(0, -1));
+    setSessionWords(previous.words);
+    setCurrentWordIndex(previous.index);
+    toast({ title: `已撤销对 "${previous.words[previous.index].word}" 的评分` });
+  };
+
+  const wordControlMutation = useMutation({
+    mutationFn: ({ card, action }: { card: StudyCard; action: "suspend" | "bury" | "reset" }) =>
+      apiRequest("POST", `/api/words/${card.id}/${action}`, { template: card.template }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/words-for-review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/new-words-for-plan"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    },
+  });
+
+  const handleWordControl = async (action: "suspend" | "bury" | "reset") => {
+    const currentWord = sessionWords[currentWordIndex];
+    if (!currentWord || wordControlMutation.isPending) return;
 
-    const isCorrect = quality >= 3;
-    const reviewResult: ReviewResult = { quality, isCorrect };
-
-    const currentSchedule: ReviewSchedule | null = currentWord.progress ? {
-        interval: currentWord.progress.interval,
-        easeFactor: currentWord.progress.easeFactor,
-        repetitions: currentWord.progress.repetitions,
-        nextReviewDate: new Date(currentWord.progress.nextReview || Date.now()),
-    } : null;
-
-    const newSchedule = SpacedRepetitionScheduler.calculateNextReview(currentSchedule, reviewResult);
-
-    const updates: Partial<UserProgress> = {
-        interval: newSchedule.interval,
-        easeFactor: newSchedule.easeFactor,
-        repetitions: newSchedule.repetitions,
-        nextReview: newSchedule.nextReviewDate,
-        lastStudied: new Date(),
-        timesStudied: (currentWord.progress?.timesStudied ?? 0) + 1,
-        timesCorrect: (currentWord.progress?.timesCorrect ?? 0) + (isCorrect ? 1 : 0),
-    };
-
-    updateProgressMutation.mutate({ wordId: currentWord.id, updates });
-    nextWord();
+    try {
+      await wordControlMutation.mutateAsync({ card: currentWord, action });
+    } catch (error) {
+      toast({ title: "操作失败", description: "请稍后重试", variant: "destructive" });
+      return;
+    }
+
+    if (action === "reset") {
+      toast({ title: `"${currentWord.word}" 的学习进度已重置` });
+      return;
+    }
+    toast({ title: action === "suspend" ? `"${currentWord.word}" 已暂停复习` : `"${currentWord.word}" 今天不再出现` });
+
+    // Suspended and buried cards leave the rest of this session; earlier grades can no longer be undone
+    const updatedWords = sessionWords.filter((word, index) => index < currentWordIndex || cardKey(word) !== cardKey(currentWord));
+    setSessionWords(updatedWords);
+    setUndoStack([]);
+    if (currentWordIndex >= updatedWords.length) {
+      finishSession(updatedWords);
+    }
   };
 
-  const nextWord = () => {
-    if (currentWordIndex < sessionWords.length - 1) {
+  useKeyboardShortcuts({
+    "space": handleFlip,
+    ...Object.fromEntries(GRADE_BUTTONS.map((button, index) => [String(index + 1), () => handleFeedback(button.grade)])),
+    "r": () => sessionWords[currentWordIndex] && playAudio(sessionWords[currentWordIndex].word),
+    "z": handleUndo,
+    "mod+z": handleUndo,
+  });
+
+  const nextWord = (words: SessionWord[] = sessionWords) => {
+    if (currentWordIndex < words.length - 1) {
       setCurrentWordIndex(currentWordIndex + 1);
     } else {
-      const correctCount = sessionWords.filter(w => w.result?.quality === 5).length;
-      const accuracy = sessionWords.length > 0 ? (correctCount / sessionWords.length) * 100 : 0;
-      const timeSpent = sessionStartTime ? Math.floor((Date.now() - sessionStartTime.getTime()) / 1000) : 0;
-
-      if (sessionId) {
-        apiRequest("PUT", `/api/study-sessions/${sessionId}`, {
-          accuracy: accuracy / 100, 
-          timeSpent,
-          wordsLearned: sessionWords.length,
-        }).catch(error => {
-          console.error("Failed to update study session:", error);
-        });
-      }
+      finishSession(words);
+    }
+  };
+
+  // The server computes the session's statistics from the reviews recorded for it
+  const finishSession = async (words: SessionWord[]) => {
+    if (!sessionId) {
+      setLocation("/dashboard");
+      return;
+    }
 
-      setLocation('/session-summary', { state: { sessionWords: sessionWords } });
+    try {
+      await apiRequest("PUT", `/api/study-sessions/${sessionId}`, { items: words.map(toSessionItem), currentIndex: words.length });
+      await apiRequest("POST", `/api/study-sessions/${sessionId}/complete`);
+    } catch (error) {
+      console.error("Failed to complete study session:", error);
     }
+    queryClient.invalidateQueries({ queryKey: ["/api/study-sessions", sessionId] });
+    setLocation(`/session-summary/${sessionId}`);
   };
 
   const previousWord = () => {
@@ -147,7 +309,7 @@ export default function Study() {
     setCurrentWordIndex(index);
   };
 
-  const isLoading = isLoadingReview || isLoadingNew || !isSessionInitialized;
+  const isLoading = isLoadingActive || isLoadingReview || isLoadingNew || !isSessionInitialized || createStudySessionMutation.isPending;
 
   if (isLoading && sessionWords.length === 0) {
     return <div className="text-center py-16">正在为你准备学习卡片...</div>;
@@ -174,15 +336,46 @@ export default function Study() {
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
         <div className="lg:col-span-2">
-          <WordCard word={currentWord} onPlayAudio={() => {}} />
-          <div className="flex justify-center items-center mt-6 space-x-4">
-              <Button variant="destructive" size="lg" onClick={() => handleFeedback(1)} disabled={!currentWord}><X className="mr-2 h-4 w-4" />我忘了</Button>
-              <Button variant="outline" size="lg" onClick={() => handleFeedback(3)} disabled={!currentWord}>不熟悉</Button>
-              <Button className="bg-green-500 hover:bg-green-600 text-white" size="lg" onClick={() => handleFeedback(5)} disabled={!currentWord}><Check className="mr-2 h-4 w-4" />我认识</Button>
+          <WordCard
+            word={currentWord}
+            template={currentWord.template}
+            senseId={currentWord.senseId}
+            onPlayAudio={() => playAudio(currentWord.word)}
+            isFlipped={isFlipped}
+            onFlip={handleFlip}
+            onSuspend={() => handleWordControl("suspend")}
+            onBury={() => handleWordControl("bury")}
+            onReset={() => handleWordControl("reset")}
+          />
+          {isRevealed ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-6">
+              {GRADE_BUTTONS.map((button, index) => (
+                <Button
+                  key={button.grade}
+                  size="lg"
+                  className={`h-auto flex-col py-3 ${button.className}`}
+                  onClick={() => handleFeedback(button.grade)}
+                  title={`${button.hint}（快捷键 ${index + 1}）`}
+                  disabled={!currentWord || submitReviewMutation.isPending}
+                  data-testid={`button-grade-${button.grade}`}
+                >
+                  <span>{button.label}</span>
+                  <span className="text-xs font-normal opacity-80">{button.hint}</span>
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex justify-center mt-6">
+              <Button size="lg" onClick={handleFlip} title="快捷键 空格" data-testid="button-reveal"><Eye className="mr-2 h-4 w-4" />显示答案</Button>
+            </div>
+          )}
+          <div className="flex justify-center mt-3">
+              <Button variant="ghost" size="sm" onClick={handleUndo} disabled={!canUndo} title="快捷键 Z 或 Ctrl+Z"><Undo2 className="mr-2 h-4 w-4" />撤销上一次评分</Button>
           </div>
         </div>
         <div className="space-y-6 lg:sticky lg:top-24">
           <SessionWordList words={sessionWords} currentWordIndex={currentWordIndex} onWordClick={handleWordClick} />
+          <ShortcutCheatsheet shortcuts={STUDY_SHORTCUTS} />
         </div>
       </div>
     </div>
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { TrashContents } from "@shared/schema";
+import { TRASH_RETENTION_DAYS, trashExpiresAt } from "@shared/trash";
+import { apiRequest, HttpError } from "@/lib/queryClient";
+
+type TrashKind = "words" | "plans";
+
+interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  name: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysLeft(deletedAt: Date | string | null): number {
+  if (!deletedAt) return TRASH_RETENTION_DAYS;
+  return Math.max(0, Math.ceil((trashExpiresAt(deletedAt).getTime() - Date.now()) / DAY_MS));
+}
+
+function TrashSection({ title, empty, items, busy, onRestore, onPurge }: {
+  title: string;
+  empty: string;
+  items: (TrashItem & { detail: string; deletedAt: Date | string | null })[];
+  busy: boolean;
+  onRestore: (item: TrashItem) => void;
+  onPurge: (item: TrashItem) => void;
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">{empty}</p>
+        ) : (
+          <ul className="divide-y">
+            {items.map(item => (
+              <li key={item.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{item.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {item.detail && <>{item.detail} · </>}{daysLeft(item.deletedAt)} 天后永久删除
+                  </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button variant="outline" size="sm" disabled={busy} onClick={() => onRestore(item)}>
+                    <RotateCcw className="h-4 w-4 mr-1" />恢复
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" disabled={busy} onClick={() => onPurge(item)}>
+                    <Trash2 className="h-4 w-4 mr-1" />永久删除
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Trash() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [purging, setPurging] = useState<TrashItem | null>(null);
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+    staleTime: 0,
+  });
+
+  const onError = async (error: Error) => {
+    let description = "操作失败，请稍后再试。";
+    if (error instanceof HttpError) {
+      description = (await error.response.json().catch(() => null))?.message || description;
+    }
+    toast({ title: "操作失败", description, variant: "destructive" });
+  };
+
+  const invalidate = (kind: TrashKind) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+    queryClient.invalidateQueries({ queryKey: kind === "words" ? ["/api/words"] : ["/api/study-plans"] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest("POST", `/api/trash/${item.kind}/${item.id}/restore`),
+    onSuccess: (_, item) => {
+      invalidate(item.kind);
+      toast({ title: `已恢复「${item.name}」` });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (item: TrashItem) => apiRequest("DELETE", `/api/trash/${item.kind}/${item.id}`),
+    onSuccess: (_, item) => {
+      invalidate(item.kind);
+      setPurging(null);
+      toast({ title: `已永久删除「${item.name}」` });
+    },
+    onError,
+  });
+
+  const busy = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">回收站</h1>
+        <p className="text-muted-foreground mt-2">删除的单词和学习计划会在这里保留 {TRASH_RETENTION_DAYS} 天，期间可以恢复，单词的学习进度也会一并保留。</p>
+      </div>
+
+      {isLoading || !trash ? (
+        <div className="space-y-4">{[...Array(2)].map((_, i) => <Skeleton key={i} className="h-40 w-full" />)}</div>
+      ) : (
+        <>
+          <TrashSection
+            title="单词"
+            empty="回收站里没有单词。"
+            items={trash.words.map(word => ({ kind: "words", id: word.id, name: word.word, detail: word.chineseDefinition, deletedAt: word.deletedAt }))}
+            busy={busy}
+            onRestore={item => restoreMutation.mutate(item)}
+            onPurge={setPurging}
+          />
+          <TrashSection
+            title="学习计划"
+            empty="回收站里没有学习计划。"
+            items={trash.plans.map(plan => ({ kind: "plans", id: plan.id, name: plan.name, detail: `每天 ${plan.dailyWordCount} 个新词`, deletedAt: plan.deletedAt }))}
+            busy={busy}
+            onRestore={item => restoreMutation.mutate(item)}
+            onPurge={setPurging}
+          />
+        </>
+      )}
+
+      <AlertDialog open={!!purging} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>永久删除</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purging?.kind === "words"
+                ? `确定要永久删除单词 "${purging?.name}" 吗？此操作无法撤销，所有学习者在该单词上的学习进度也将被删除。`
+                : `确定要永久删除学习计划 "${purging?.name}" 吗？此操作无法撤销。`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction disabled={busy} onClick={() => purging && purgeMutation.mutate(purging)} className="bg-destructive hover:bg-destructive/90">
+              永久删除
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
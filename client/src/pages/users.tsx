@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, ROLE_LABELS } from "@/hooks/use-auth";
+import { USER_ROLES, type UserRole, type UserSummary } from "@shared/schema";
+import { apiRequest, HttpError } from "@/lib/queryClient";
+
+export default function Users() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = user?.role === "admin";
+
+  const { data: users, isLoading } = useQuery<UserSummary[]>({
+    queryKey: ["/api/users"],
+    enabled: isAdmin,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) => apiRequest("PATCH", `/api/users/${id}/role`, { role }),
+    onSuccess: (_, { role }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: `已设为${ROLE_LABELS[role]}` });
+    },
+    onError: async (error) => {
+      let description = "修改角色失败，请稍后再试。";
+      if (error instanceof HttpError) {
+        description = (await error.response.json().catch(() => null))?.message || description;
+      }
+      toast({ title: "操作失败", description, variant: "destructive" });
+    },
+  });
+
+  if (!isAdmin) {
+    return <p className="text-center text-muted-foreground py-16">只有管理员可以管理用户。</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">用户管理</h1>
+        <p className="text-muted-foreground mt-2">编辑和管理员可以维护公共单词库，学习者只能添加自己可见的私有单词。</p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-2">{[...Array(4)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>邮箱</TableHead>
+                  <TableHead>注册时间</TableHead>
+                  <TableHead className="w-40">角色</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users?.map(member => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{member.email}</TableCell>
+                    <TableCell className="text-muted-foreground">{new Date(member.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell>
+                      {/* Admins cannot demote themselves, so the app always keeps one */}
+                      <Select
+                        value={member.role}
+                        disabled={member.id === user.id || roleMutation.isPending}
+                        onValueChange={(role) => roleMutation.mutate({ id: member.id, role: role as UserRole })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
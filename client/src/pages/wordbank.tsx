@@ -3,19 +3,28 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Search, Volume2, Star, Trash2, Plus, Upload, Pencil } from "lucide-react";
+import { Search, Volume2, Star, Trash2, Plus, Upload, Pencil, PauseCircle, PlayCircle, Moon, RotateCcw, Globe, History, MessageSquarePlus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { Word, WordWithProgress } from "@shared/schema";
-import { insertWordSchema } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import type { WordWithProgress, WordImportMode, WordImportReport, WordImportRowResult, CardTemplate, CollectionWithWords } from "@shared/schema";
+import { CARD_TEMPLATE_LABELS } from "@/components/word-card";
+import { ManageCollections } from "@/components/manage-collections";
+import { WordHistoryDialog } from "@/components/word-history";
+import WordSensesEditor, { wordFormSchema, toWordFormValues, EMPTY_SENSE, type WordFormValues } from "@/components/word-senses-editor";
 import { apiRequest, HttpError } from "@/lib/queryClient";
+import { getWordSenses } from "@shared/word-senses";
+import { canEditWord, canManageCatalog } from "@shared/roles";
+import { TRASH_RETENTION_DAYS } from "@shared/trash";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
 import { Skeleton } from "@/components/ui/skeleton";
 
 const SYSTEM_CATEGORIES: { [key: string]: string } = {
@@ -30,10 +39,27 @@ const STATIC_CATEGORIES = {
   "all": "全部单词",
   "starred": "重点词汇",
   "mastered": "已掌握",
+  "leeches": "难记词",
+};
+
+const IMPORT_STATUS_LABELS: Record<WordImportRowResult["status"], string> = {
+  "created": "新增",
+  "updated": "更新",
+  "skipped": "跳过",
+  "invalid": "无效",
 };
 
-const addWordSchema = insertWordSchema.extend({});
-const editWordSchema = insertWordSchema.partial();
+// Sidebar keys of the user's collections
+const COLLECTION_PREFIX = "collection:";
+
+type WordControlAction = "suspend" | "unsuspend" | "bury" | "reset";
+
+const WORD_CONTROL_MESSAGES: Record<WordControlAction, string> = {
+  "suspend": "已暂停复习",
+  "unsuspend": "已恢复复习",
+  "bury": "今天不再出现",
+  "reset": "学习进度已重置",
+};
 
 export default function WordBank() {
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
@@ -42,26 +68,34 @@ export default function WordBank() {
   const [showAddWordDialog, setShowAddWordDialog] = useState(false);
   const [showEditWordDialog, setShowEditWordDialog] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
-  const [selectedWord, setSelectedWord] = useState<Word | null>(null);
+  const [selectedWord, setSelectedWord] = useState<WordWithProgress | null>(null);
+  const [historyWord, setHistoryWord] = useState<WordWithProgress | null>(null);
+  const [suggestionComment, setSuggestionComment] = useState("");
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMode, setImportMode] = useState<WordImportMode>("skip");
+  const [importReport, setImportReport] = useState<WordImportReport | null>(null);
+  const [collectionToDelete, setCollectionToDelete] = useState<CollectionWithWords | null>(null);
+  const [collectionToEdit, setCollectionToEdit] = useState<CollectionWithWords | null>(null);
+  const [collectionForm, setCollectionForm] = useState({ name: "", description: "", isPublic: false });
   const wordsPerPage = 20;
 
   const { toast } = useToast();
+  const { user } = useAuth();
   const queryClient = useQueryClient();
 
-  const addWordForm = useForm<z.infer<typeof addWordSchema>>({
-    resolver: zodResolver(addWordSchema),
-    defaultValues: { word: "", phonetic: "", partOfSpeech: "noun", chineseDefinition: "", englishExample: "", chineseExample: "", category: "junior" },
+  const addWordForm = useForm<WordFormValues>({
+    resolver: zodResolver(wordFormSchema),
+    defaultValues: { word: "", phonetic: "", category: "junior", senses: [EMPTY_SENSE], isPrivate: false },
   });
 
-  const editWordForm = useForm<z.infer<typeof editWordSchema>>({
-    resolver: zodResolver(editWordSchema),
+  const editWordForm = useForm<WordFormValues>({
+    resolver: zodResolver(wordFormSchema),
   });
 
   useEffect(() => {
     if (selectedWord) {
-      editWordForm.reset(selectedWord);
+      editWordForm.reset(toWordFormValues(selectedWord));
     }
   }, [selectedWord, editWordForm]);
 
@@ -70,6 +104,23 @@ export default function WordBank() {
     queryFn: () => apiRequest("GET", "/api/words").then(res => res.json()),
   });
 
+  const { data: leeches, isLoading: isLoadingLeeches } = useQuery<WordWithProgress[]>({
+    queryKey: ["/api/leeches"],
+    enabled: selectedCategory === "leeches",
+  });
+
+  const { data: collections = [] } = useQuery<CollectionWithWords[]>({
+    queryKey: ["/api/collections"],
+  });
+
+  const { data: subscribedDecks = [] } = useQuery<CollectionWithWords[]>({
+    queryKey: ["/api/decks/subscribed"],
+  });
+
+  const selectedCollection = selectedCategory.startsWith(COLLECTION_PREFIX)
+    ? [...collections, ...subscribedDecks].find(c => c.id === selectedCategory.slice(COLLECTION_PREFIX.length))
+    : undefined;
+
   const handleApiError = async (error: unknown, defaultMessage: string) => {
     let description = defaultMessage;
     if (error instanceof HttpError) {
@@ -90,32 +141,88 @@ export default function WordBank() {
   });
 
   const createWordMutation = useMutation({
-    mutationFn: (wordData: z.infer<typeof addWordSchema>) => apiRequest("POST", `/api/words`, wordData),
+    mutationFn: (wordData: WordFormValues) => apiRequest("POST", `/api/words`, wordData),
     onSuccess: () => { queryClient.invalidateQueries({ queryKey: ["/api/words"] }); setShowAddWordDialog(false); addWordForm.reset(); toast({ title: "单词创建成功！" }); },
     onError: (error) => handleApiError(error, "创建失败，请稍后再试。"),
   });
 
   const updateWordMutation = useMutation({
-    mutationFn: ({ id, ...wordData }: { id: string } & z.infer<typeof editWordSchema>) => apiRequest("PUT", `/api/words/${id}`, wordData),
+    mutationFn: ({ id, ...wordData }: { id: string } & WordFormValues) => apiRequest("PUT", `/api/words/${id}`, wordData),
     onSuccess: () => { queryClient.invalidateQueries({ queryKey: ["/api/words"] }); setShowEditWordDialog(false); setSelectedWord(null); toast({ title: "单词更新成功！" }); },
     onError: (error) => handleApiError(error, "更新失败，请稍后再试。"),
   });
 
+  // Learners cannot edit shared words, so their edits are sent as suggestions for editors to review
+  const suggestWordMutation = useMutation({
+    mutationFn: ({ id, ...wordData }: { id: string; comment: string } & WordFormValues) => apiRequest("POST", `/api/words/${id}/suggestions`, wordData),
+    onSuccess: () => { setShowEditWordDialog(false); setSelectedWord(null); setSuggestionComment(""); toast({ title: "修改建议已提交", description: "编辑审核通过后就会生效。" }); },
+    onError: (error) => handleApiError(error, "提交失败，请稍后再试。"),
+  });
+
+  const wordControlMutation = useMutation({
+    mutationFn: ({ wordId, action }: { wordId: string; action: WordControlAction }) => apiRequest("POST", `/api/words/${wordId}/${action}`),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/words"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leeches"] });
+      toast({ title: WORD_CONTROL_MESSAGES[action] });
+    },
+    onError: (error) => handleApiError(error, "操作失败，请稍后再试。"),
+  });
+
   const deleteWordMutation = useMutation({
     mutationFn: (wordId: string) => apiRequest("DELETE", `/api/words/${wordId}`),
-    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ["/api/words"] }); setShowDeleteConfirm(false); setSelectedWord(null); toast({ title: "单词已删除" }); },
+    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ["/api/words"] }); setShowDeleteConfirm(false); setSelectedWord(null); toast({ title: "单词已移到回收站" }); },
     onError: (error) => handleApiError(error, "删除失败，请稍后再试。"),
   });
 
+  const deleteCollectionMutation = useMutation({
+    mutationFn: (collectionId: string) => apiRequest("DELETE", `/api/collections/${collectionId}`),
+    onSuccess: (_, collectionId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      // Plans targeting the collection now use their category again
+      queryClient.invalidateQueries({ queryKey: ["/api/study-plans"] });
+      if (selectedCategory === `${COLLECTION_PREFIX}${collectionId}`) setSelectedCategory("all");
+      setCollectionToDelete(null);
+      toast({ title: "合集已删除" });
+    },
+    onError: (error) => handleApiError(error, "删除合集失败，请稍后再试。"),
+  });
+
+  const updateCollectionMutation = useMutation({
+    mutationFn: ({ id, ...updates }: { id: string; name: string; description: string; isPublic: boolean }) =>
+      apiRequest("PATCH", `/api/collections/${id}`, { ...updates, description: updates.description || null }),
+    onSuccess: (_, { isPublic }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/collections"] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/decks") });
+      setCollectionToEdit(null);
+      toast({ title: isPublic ? "合集已保存，并在卡组广场公开" : "合集已保存" });
+    },
+    onError: (error) => handleApiError(error, "保存合集失败，请稍后再试。"),
+  });
+
+  const openCollectionEditor = (collection: CollectionWithWords) => {
+    setCollectionForm({ name: collection.name, description: collection.description ?? "", isPublic: collection.isPublic });
+    setCollectionToEdit(collection);
+  };
+
   const importWordsMutation = useMutation({
-    mutationFn: (formData: FormData) => apiRequest("POST", `/api/words/import`, formData),
-    onSuccess: () => { queryClient.invalidateQueries({ queryKey: ["/api/words"] }); setShowImportDialog(false); setImportFile(null); toast({ title: "导入成功！" }); },
+    mutationFn: (formData: FormData): Promise<WordImportReport> => apiRequest("POST", `/api/words/import`, formData).then(res => res.json()),
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/words"] });
+      setImportFile(null);
+      setImportReport(report);
+      toast({ title: "导入完成", description: `新增 ${report.created}，更新 ${report.updated}，跳过 ${report.skipped}，无效 ${report.invalid}` });
+    },
     onError: (error) => handleApiError(error, "导入失败，请检查文件格式。"),
   });
 
-  const onSubmitAddWord = (data: z.infer<typeof addWordSchema>) => createWordMutation.mutate(data);
-  const onSubmitEditWord = (data: z.infer<typeof editWordSchema>) => {
-    if (selectedWord) {
+  const onSubmitAddWord = (data: WordFormValues) => createWordMutation.mutate(data);
+  const isSuggesting = !!selectedWord && !!user && !canEditWord(user, selectedWord);
+  const onSubmitEditWord = (data: WordFormValues) => {
+    if (!selectedWord) return;
+    if (isSuggesting) {
+      suggestWordMutation.mutate({ id: selectedWord.id, comment: suggestionComment, ...data });
+    } else {
       updateWordMutation.mutate({ id: selectedWord.id, ...data });
     }
   };
@@ -126,12 +233,12 @@ export default function WordBank() {
     }
   };
 
-  const openEditDialog = (word: Word) => {
+  const openEditDialog = (word: WordWithProgress) => {
     setSelectedWord(word);
     setShowEditWordDialog(true);
   };
 
-  const openDeleteDialog = (word: Word) => {
+  const openDeleteDialog = (word: WordWithProgress) => {
     setSelectedWord(word);
     setShowDeleteConfirm(true);
   };
@@ -140,23 +247,37 @@ export default function WordBank() {
     if (!importFile) return;
     const formData = new FormData();
     formData.append('file', importFile);
+    formData.append('mode', importMode);
     importWordsMutation.mutate(formData);
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) setImportFile(file);
+    if (file) {
+      setImportFile(file);
+      setImportReport(null);
+    }
   };
 
-  const filteredWords = allWords?.filter(word => {
+  const handleImportDialogChange = (open: boolean) => {
+    setShowImportDialog(open);
+    if (!open) {
+      setImportFile(null);
+      setImportReport(null);
+    }
+  };
+
+  const filteredWords = (selectedCategory === "leeches" ? leeches : allWords)?.filter(word => {
     const matchesSearch = searchQuery === "" || word.word.toLowerCase().includes(searchQuery.toLowerCase()) || word.chineseDefinition.toLowerCase().includes(searchQuery.toLowerCase());
-    if (selectedCategory === "all") return matchesSearch;
+    if (selectedCategory === "all" || selectedCategory === "leeches") return matchesSearch;
     if (selectedCategory === "starred") return matchesSearch && !!word.progress?.isStarred;
     if (selectedCategory === "mastered") return matchesSearch && (word.progress?.masteryLevel || 0) > 80;
     if (SYSTEM_CATEGORIES[selectedCategory]) return matchesSearch && word.category === selectedCategory;
+    if (selectedCategory.startsWith(COLLECTION_PREFIX)) return matchesSearch && !!selectedCollection?.wordIds.includes(word.id);
     return matchesSearch;
   }) || [];
 
+  const isListLoading = isLoading || (selectedCategory === "leeches" && isLoadingLeeches);
   const paginatedWords = filteredWords.slice((currentPage - 1) * wordsPerPage, currentPage * wordsPerPage);
   const totalPages = Math.ceil(filteredWords.length / wordsPerPage);
 
@@ -173,6 +294,29 @@ export default function WordBank() {
         {Object.entries(SYSTEM_CATEGORIES).map(([key, name]) => (
           <Button key={key} variant={selectedCategory === key ? "secondary" : "ghost"} className="w-full justify-start" onClick={() => setSelectedCategory(key)} disabled={isLoading}>{name}</Button>
         ))}
+        <h4 className="text-sm font-semibold text-muted-foreground px-3 pt-4 mb-1">我的合集</h4>
+        {collections.length === 0 && <p className="px-3 text-xs text-muted-foreground">点击单词旁的标签按钮，把单词加入合集。</p>}
+        {collections.map(collection => {
+          const key = `${COLLECTION_PREFIX}${collection.id}`;
+          return (
+            <div key={key} className="flex items-center gap-1">
+              <Button variant={selectedCategory === key ? "secondary" : "ghost"} className="flex-1 justify-between min-w-0" onClick={() => setSelectedCategory(key)} disabled={isLoading}>
+                <span className="truncate">{collection.name}</span><span className="text-xs text-muted-foreground">{collection.wordIds.length}</span>
+              </Button>
+              <Button variant="ghost" size="sm" title={collection.isPublic ? "编辑合集（已公开）" : "编辑合集"} className="text-muted-foreground" onClick={() => openCollectionEditor(collection)}>{collection.isPublic ? <Globe className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}</Button>
+              <Button variant="ghost" size="sm" title="删除合集" className="text-muted-foreground hover:text-destructive" onClick={() => setCollectionToDelete(collection)}><Trash2 className="h-4 w-4" /></Button>
+            </div>
+          );
+        })}
+        {subscribedDecks.length > 0 && <h4 className="text-sm font-semibold text-muted-foreground px-3 pt-4 mb-1">订阅的卡组</h4>}
+        {subscribedDecks.map(deck => {
+          const key = `${COLLECTION_PREFIX}${deck.id}`;
+          return (
+            <Button key={key} variant={selectedCategory === key ? "secondary" : "ghost"} className="w-full justify-between" onClick={() => setSelectedCategory(key)} disabled={isLoading}>
+              <span className="truncate">{deck.name}</span><span className="text-xs text-muted-foreground">{deck.wordIds.length}</span>
+            </Button>
+          );
+        })}
       </CardContent>
     </Card>
   );
@@ -190,30 +334,52 @@ export default function WordBank() {
                   <FormField control={addWordForm.control} name="word" render={({ field }) => (<FormItem><FormLabel>英文单词 *</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
                   <FormField control={addWordForm.control} name="phonetic" render={({ field }) => (<FormItem><FormLabel>音标 *</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
                 </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <FormField control={addWordForm.control} name="partOfSpeech" render={({ field }) => (<FormItem><FormLabel>词性 *</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="noun">名词</SelectItem><SelectItem value="verb">动词</SelectItem><SelectItem value="adjective">形容词</SelectItem><SelectItem value="adverb">副词</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
-                  <FormField control={addWordForm.control} name="category" render={({ field }) => (<FormItem><FormLabel>系统分类 *</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(SYSTEM_CATEGORIES).map(([key, name]) => (<SelectItem key={key} value={key}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
-                </div>
-                <FormField control={addWordForm.control} name="chineseDefinition" render={({ field }) => (<FormItem><FormLabel>中文释义 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
-                <FormField control={addWordForm.control} name="englishExample" render={({ field }) => (<FormItem><FormLabel>英文例句 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
-                <FormField control={addWordForm.control} name="chineseExample" render={({ field }) => (<FormItem><FormLabel>中文例句 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={addWordForm.control} name="category" render={({ field }) => (<FormItem><FormLabel>系统分类 *</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(SYSTEM_CATEGORIES).map(([key, name]) => (<SelectItem key={key} value={key}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
+                <WordSensesEditor form={addWordForm} />
+                {user && canManageCatalog(user) ? (
+                  <FormField control={addWordForm.control} name="isPrivate" render={({ field }) => (<FormItem className="flex items-center justify-between rounded-lg border p-3"><div><FormLabel>仅自己可见</FormLabel><p className="text-xs text-muted-foreground">不加入公共单词库，只有你能看到和编辑</p></div><FormControl><Switch checked={!!field.value} onCheckedChange={field.onChange} /></FormControl></FormItem>)} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">你录入的单词仅自己可见，公共单词库由编辑维护。</p>
+                )}
                 <div className="flex justify-end space-x-2 pt-4"><Button type="button" variant="outline" onClick={() => setShowAddWordDialog(false)}>取消</Button><Button type="submit" disabled={createWordMutation.isPending}>{createWordMutation.isPending ? "添加中..." : "添加单词"}</Button></div>
               </form></Form>
             </DialogContent>
           </Dialog>
-          <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+          <Dialog open={showImportDialog} onOpenChange={handleImportDialogChange}>
             <DialogTrigger asChild><Button variant="outline"><Upload className="mr-2 h-4 w-4" />批量导入</Button></DialogTrigger>
             <DialogContent className="max-w-lg"><DialogHeader><DialogTitle className="text-xl font-bold">批量导入单词</DialogTitle></DialogHeader>
               <div className="space-y-6">
                 <div>
-                  <p className="text-sm text-muted-foreground mb-4">支持CSV和JSON格式。请下载模板文件，按照格式填写单词数据。</p>
+                  <p className="text-sm text-muted-foreground mb-4">支持CSV和JSON格式。请下载模板文件，按照格式填写单词数据。CSV 可用 example_source、example_difficulty 列注明例句出处和难度；JSON 中每个单词可提供 examples 数组导入多条例句。</p>
                   <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
                     <input type="file" accept=".csv,.json" onChange={handleFileChange} className="hidden" id="file-upload" />
                     <label htmlFor="file-upload" className="cursor-pointer"><Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" /><p className="text-sm text-muted-foreground">点击选择或拖拽文件到此处</p></label>
                   </div>
                   {importFile && <div className="mt-4 p-3 bg-muted rounded-lg"><p className="text-sm font-medium">已选择文件: {importFile.name}</p></div>}
                 </div>
-                <div className="flex justify-end space-x-3"><Button variant="outline" onClick={() => setShowImportDialog(false)}>取消</Button><Button onClick={handleFileImport} disabled={!importFile || importWordsMutation.isPending}>{importWordsMutation.isPending ? "导入中..." : "开始导入"}</Button></div>
+                <div>
+                  <p className="text-sm font-medium mb-2">已存在的单词</p>
+                  <Select value={importMode} onValueChange={(value) => setImportMode(value as WordImportMode)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent><SelectItem value="skip">跳过，保留原有数据</SelectItem><SelectItem value="merge">合并，用文件内容更新</SelectItem></SelectContent>
+                  </Select>
+                </div>
+                {importReport && (
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium">导入结果：共 {importReport.total} 行，新增 {importReport.created}，更新 {importReport.updated}，跳过 {importReport.skipped}，无效 {importReport.invalid}</p>
+                    <div className="max-h-60 overflow-y-auto border rounded-lg divide-y">
+                      {importReport.rows.map(row => (
+                        <div key={row.row} className="p-2 text-sm flex items-start gap-3">
+                          <span className="text-muted-foreground w-10 shrink-0">#{row.row}</span>
+                          <span className="font-medium w-24 shrink-0 truncate">{row.word || "-"}</span>
+                          <span className={row.status === "invalid" ? "text-destructive shrink-0" : row.status === "skipped" ? "text-muted-foreground shrink-0" : "text-chart-2 shrink-0"}>{IMPORT_STATUS_LABELS[row.status]}</span>
+                          {row.reason && <span className="text-muted-foreground break-all">{row.reason}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="flex justify-end space-x-3"><Button variant="outline" onClick={() => handleImportDialogChange(false)}>{importReport ? "关闭" : "取消"}</Button><Button onClick={handleFileImport} disabled={!importFile || importWordsMutation.isPending}>{importWordsMutation.isPending ? "导入中..." : "开始导入"}</Button></div>
               </div>
             </DialogContent>
           </Dialog>
@@ -225,26 +391,35 @@ export default function WordBank() {
         <div className="lg:col-span-3"><Card>
           <CardHeader className="border-b"><div className="relative"><Input placeholder="搜索单词..." value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} className="pl-10" /><Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" /></div></CardHeader>
           <CardContent className="p-0">
-            {isLoading && <div className="p-8 text-center">{Array.from({ length: 5 }).map((_, index) => (
+            {isListLoading && <div className="p-8 text-center">{Array.from({ length: 5 }).map((_, index) => (
                 <Skeleton key={index} className="h-12 w-full mb-3" />
               ))}</div>}
             {isError && <div className="p-8 text-center text-destructive">加载单词失败，请稍后重试。</div>}
-            {!isLoading && !isError && paginatedWords.length === 0 && <div className="p-8 text-center text-muted-foreground">{searchQuery ? "没有找到匹配的单词" : "此分类下暂无单词"}</div>}
-            {!isLoading && !isError && paginatedWords.length > 0 && (
+            {!isListLoading && !isError && paginatedWords.length === 0 && <div className="p-8 text-center text-muted-foreground">{searchQuery ? "没有找到匹配的单词" : "此分类下暂无单词"}</div>}
+            {!isListLoading && !isError && paginatedWords.length > 0 && (
               <table className="w-full">
                 <thead className="bg-muted/50"><tr><th className="p-4 text-left">单词</th><th className="p-4 text-left">释义</th><th className="p-4 text-left">操作</th></tr></thead>
                 <tbody className="divide-y">
                   {paginatedWords.map(word => (
-                    <tr key={word.id}>
+                    <tr key={word.progress ? `${word.id}:${word.progress.template}` : word.id}>
                       <td className="p-4 align-top"><div className="flex items-center space-x-3">
                         <Button variant="ghost" size="sm" onClick={() => playAudio(word.word)}><Volume2 className="h-4 w-4" /></Button>
-                        <div><div className="font-medium">{word.word}</div><div className="text-sm text-muted-foreground">{word.phonetic}</div></div>
+                        <div><div className="font-medium">{word.word}{word.ownerId && <Badge variant="outline" className="ml-2 text-xs font-normal">私有</Badge>}</div><div className="text-sm text-muted-foreground">{word.phonetic}</div>{selectedCategory === "leeches" && <div className="text-xs text-destructive">{word.progress && word.progress.template !== "recognition" ? `${CARD_TEMPLATE_LABELS[word.progress.template as CardTemplate]} · ` : ""}遗忘 {word.progress?.lapses ?? 0} 次{word.progress?.isSuspended ? " · 已暂停" : ""}</div>}</div>
                       </div></td>
-                      <td className="p-4 max-w-xs truncate align-top">{word.chineseDefinition}</td>
+                      <td className="p-4 max-w-xs truncate align-top">{getWordSenses(word).map(sense => sense.chineseDefinition).join("；")}</td>
                       <td className="p-4 align-top"><div className="flex items-center space-x-1">
                         <Button variant="ghost" size="sm" onClick={() => toggleStarMutation.mutate(word.id)} className={word.progress?.isStarred ? "text-chart-3" : ""}><Star className={`h-4 w-4 ${word.progress?.isStarred ? "fill-current" : ""}`} /></Button>
-                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(word)}><Pencil className="h-4 w-4" /></Button>
-                        <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => openDeleteDialog(word)}><Trash2 className="h-4 w-4" /></Button>
+                        {word.progress?.isSuspended
+                          ? <Button variant="ghost" size="sm" title="恢复复习" onClick={() => wordControlMutation.mutate({ wordId: word.id, action: "unsuspend" })}><PlayCircle className="h-4 w-4" /></Button>
+                          : <Button variant="ghost" size="sm" title="暂停复习" onClick={() => wordControlMutation.mutate({ wordId: word.id, action: "suspend" })}><PauseCircle className="h-4 w-4" /></Button>}
+                        <Button variant="ghost" size="sm" title="今天跳过" onClick={() => wordControlMutation.mutate({ wordId: word.id, action: "bury" })} disabled={!!word.progress?.buriedUntil && new Date(word.progress.buriedUntil) > new Date()}><Moon className="h-4 w-4" /></Button>
+                        <Button variant="ghost" size="sm" title="重新学习" onClick={() => wordControlMutation.mutate({ wordId: word.id, action: "reset" })} disabled={!word.progress}><RotateCcw className="h-4 w-4" /></Button>
+                        <ManageCollections word={word} />
+                        <Button variant="ghost" size="sm" title="修改记录" onClick={() => setHistoryWord(word)}><History className="h-4 w-4" /></Button>
+                        {user && canEditWord(user, word) ? <>
+                          <Button variant="ghost" size="sm" onClick={() => openEditDialog(word)}><Pencil className="h-4 w-4" /></Button>
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" onClick={() => openDeleteDialog(word)}><Trash2 className="h-4 w-4" /></Button>
+                        </> : <Button variant="ghost" size="sm" title="建议修改" onClick={() => openEditDialog(word)}><MessageSquarePlus className="h-4 w-4" /></Button>}
                       </div></td>
                     </tr>
                   ))}
@@ -259,34 +434,40 @@ export default function WordBank() {
       {/* Edit Word Dialog */}
       <Dialog open={showEditWordDialog} onOpenChange={setShowEditWordDialog}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-          <DialogHeader><DialogTitle className="text-xl font-bold">编辑单词</DialogTitle></DialogHeader>
+          <DialogHeader><DialogTitle className="text-xl font-bold">{isSuggesting ? "建议修改" : "编辑单词"}</DialogTitle></DialogHeader>
           <Form {...editWordForm}><form onSubmit={editWordForm.handleSubmit(onSubmitEditWord)} className="space-y-6 p-1">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField control={editWordForm.control} name="word" render={({ field }) => (<FormItem><FormLabel>英文单词 *</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
               <FormField control={editWordForm.control} name="phonetic" render={({ field }) => (<FormItem><FormLabel>音标 *</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>)} />
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField control={editWordForm.control} name="partOfSpeech" render={({ field }) => (<FormItem><FormLabel>词性 *</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="noun">名词</SelectItem><SelectItem value="verb">动词</SelectItem><SelectItem value="adjective">形容词</SelectItem><SelectItem value="adverb">副词</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
-              <FormField control={editWordForm.control} name="category" render={({ field }) => (<FormItem><FormLabel>系统分类 *</FormLabel><Select onValueChange={field.onChange} defaultValue={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(SYSTEM_CATEGORIES).map(([key, name]) => (<SelectItem key={key} value={key}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
-            </div>
-            <FormField control={editWordForm.control} name="chineseDefinition" render={({ field }) => (<FormItem><FormLabel>中文释义 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
-            <FormField control={editWordForm.control} name="englishExample" render={({ field }) => (<FormItem><FormLabel>英文例句 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
-            <FormField control={editWordForm.control} name="chineseExample" render={({ field }) => (<FormItem><FormLabel>中文例句 *</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={editWordForm.control} name="category" render={({ field }) => (<FormItem><FormLabel>系统分类 *</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(SYSTEM_CATEGORIES).map(([key, name]) => (<SelectItem key={key} value={key}>{name}</SelectItem>))}</SelectContent></Select><FormMessage /></FormItem>)} />
+            <WordSensesEditor form={editWordForm} />
+            {isSuggesting && (
+              <div className="space-y-2">
+                <Label htmlFor="suggestion-comment">修改说明</Label>
+                <Textarea id="suggestion-comment" rows={2} placeholder="例如：释义有误，正确的应该是……" value={suggestionComment} onChange={(e) => setSuggestionComment(e.target.value)} />
+                <p className="text-xs text-muted-foreground">公共单词库由编辑维护，你的修改会在审核通过后生效。</p>
+              </div>
+            )}
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={() => setShowEditWordDialog(false)}>取消</Button>
-              <Button type="submit" disabled={updateWordMutation.isPending}>{updateWordMutation.isPending ? "更新中..." : "更新单词"}</Button>
+              {isSuggesting
+                ? <Button type="submit" disabled={suggestWordMutation.isPending}>{suggestWordMutation.isPending ? "提交中..." : "提交建议"}</Button>
+                : <Button type="submit" disabled={updateWordMutation.isPending}>{updateWordMutation.isPending ? "更新中..." : "更新单词"}</Button>}
             </div>
           </form></Form>
         </DialogContent>
       </Dialog>
 
+      <WordHistoryDialog word={historyWord} onClose={() => setHistoryWord(null)} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>确认删除</AlertDialogTitle>
             <AlertDialogDescription>
-              你确定要删除单词 "{selectedWord?.word}" 吗？此操作无法撤销，与该单词相关的学习进度也将被一b并删除。
+              你确定要删除单词 "{selectedWord?.word}" 吗？单词会移到回收站，{TRASH_RETENTION_DAYS} 天内可以恢复，学习进度会一并保留。
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -297,6 +478,54 @@ export default function WordBank() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Edit Collection Dialog */}
+      <Dialog open={!!collectionToEdit} onOpenChange={(open) => !open && setCollectionToEdit(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader><DialogTitle className="text-xl font-bold">编辑合集</DialogTitle></DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="collection-name">名称</Label>
+              <Input id="collection-name" value={collectionForm.name} onChange={(e) => setCollectionForm({ ...collectionForm, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="collection-description">简介</Label>
+              <Textarea id="collection-description" rows={3} placeholder="介绍一下这个合集，例如适合的年级或教材" value={collectionForm.description} onChange={(e) => setCollectionForm({ ...collectionForm, description: e.target.value })} />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="collection-public">公开为卡组</Label>
+                <p className="text-xs text-muted-foreground">其他同学可以在卡组广场订阅或复制这个合集</p>
+              </div>
+              <Switch id="collection-public" checked={collectionForm.isPublic} onCheckedChange={(isPublic) => setCollectionForm({ ...collectionForm, isPublic })} />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <Button variant="outline" onClick={() => setCollectionToEdit(null)}>取消</Button>
+              <Button disabled={!collectionForm.name.trim() || updateCollectionMutation.isPending} onClick={() => collectionToEdit && updateCollectionMutation.mutate({ id: collectionToEdit.id, ...collectionForm })}>
+                {updateCollectionMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Collection Confirmation Dialog */}
+      <AlertDialog open={!!collectionToDelete} onOpenChange={(open) => !open && setCollectionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>删除合集</AlertDialogTitle>
+            <AlertDialogDescription>
+              确定要删除合集 "{collectionToDelete?.name}" 吗？合集中的单词不会被删除，以该合集为学习范围的计划将改回按学习阶段选词。如果合集已公开，订阅者也将无法再使用它。
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>取消</AlertDialogCancel>
+            <AlertDialogAction onClick={() => collectionToDelete && deleteCollectionMutation.mutate(collectionToDelete.id)} disabled={deleteCollectionMutation.isPending} className="bg-destructive hover:bg-destructive/90">
+              {deleteCollectionMutation.isPending ? "删除中..." : "确认删除"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+/**
+ * FSRS (Free Spaced Repetition Scheduler) Implementation
+ * Based on FSRS-4.5: each word has a memory stability and difficulty, and reviews are
+ * scheduled for when the predicted recall probability (retrievability) falls to the
+ * desired retention.
+ */
+
+import { balanceInterval, type ReviewResult, type ReviewSchedule, type SchedulerOptions } from "./spaced-repetition.js";
+
+export interface FsrsMemoryState {
+  stability: number;
+  difficulty: number;
+}
+
+// FSRS ratings: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+type FsrsRating = 1 | 2 | 3 | 4;
+
+export class FsrsScheduler {
+  // Default FSRS-4.5 weights, fitted on a large population of review histories
+  private static readonly WEIGHTS = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+  ];
+  private static readonly DECAY = -0.5;
+  private static readonly FACTOR = 19 / 81; // chosen so that R(S, S) = 0.9
+  private static readonly DEFAULT_RETENTION = 0.9;
+  private static readonly MAX_INTERVAL = 36500;
+  private static readonly MIN_EASE_FACTOR = 1.3;
+  private static readonly MAX_EASE_FACTOR = 3.0;
+
+  /**
+   * Calculate the next review schedule based on performance
+   */
+  static calculateNextReview(
+    currentSchedule: ReviewSchedule | null,
+    reviewResult: ReviewResult,
+    options: SchedulerOptions = {}
+  ): ReviewSchedule {
+    const desiredRetention = options.desiredRetention ?? this.DEFAULT_RETENTION;
+    const now = new Date();
+    const rating = this.toRating(reviewResult);
+    const w = this.WEIGHTS;
+
+    let state: FsrsMemoryState;
+    let repetitions: number;
+
+    if (!currentSchedule) {
+      state = {
+        stability: w[rating - 1],
+        difficulty: this.initialDifficulty(rating),
+      };
+      repetitions = rating > 1 ? 1 : 0;
+    } else {
+      const previous = this.getMemoryState(currentSchedule);
+      const elapsedDays = this.elapsedDays(currentSchedule, now);
+      const retrievability = this.retrievability(elapsedDays, previous.stability);
+
+      state = {
+        difficulty: this.nextDifficulty(previous.difficulty, rating),
+        stability: rating === 1
+          ? this.stabilityAfterLapse(previous, retrievability)
+          : this.stabilityAfterRecall(previous, retrievability, rating),
+      };
+      repetitions = rating === 1 ? 0 : currentSchedule.repetitions + 1;
+    }
+
+    const interval = balanceInterval(this.nextInterval(state.stability, desiredRetention), options.dueCounts, options.timezoneOffset);
+
+    return {
+      nextReviewDate: this.addDays(now, interval),
+      interval,
+      // Keep the SM-2 fields meaningful so users can switch back at any time
+      easeFactor: this.difficultyToEaseFactor(state.difficulty),
+      repetitions,
+      stability: state.stability,
+      difficulty: state.difficulty,
+      lastReviewDate: now,
+    };
+  }
+
+  /**
+   * Memory state of a schedule. Words scheduled only with SM-2 have no FSRS state yet,
+   * so one is derived from their interval, ease factor and repetitions.
+   */
+  static getMemoryState(schedule: ReviewSchedule): FsrsMemoryState {
+    if (schedule.stability != null && schedule.difficulty != null) {
+      return { stability: schedule.stability, difficulty: schedule.difficulty };
+    }
+    return this.deriveFromSm2(schedule.interval, schedule.easeFactor, schedule.repetitions);
+  }
+
+  /**
+   * Initial FSRS state for a word with SM-2 history.
+   * SM-2 schedules a review roughly when recall is still likely, so the last interval
+   * is a fair estimate of stability at 90% retention. Ease factor maps inversely onto
+   * difficulty, with the SM-2 default (2.5) landing in the middle of the FSRS range.
+   */
+  static deriveFromSm2(interval: number, easeFactor: number, repetitions: number): FsrsMemoryState {
+    const stability = repetitions > 0 ? Math.max(interval, this.WEIGHTS[2]) : this.WEIGHTS[0];
+    const difficulty = this.clampDifficulty(5.5 - (easeFactor - 2.5) * (4.5 / 1.2));
+    return { stability, difficulty };
+  }
+
+  /**
+   * Probability of recalling a word `elapsedDays` after the last review
+   */
+  static retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + this.FACTOR * elapsedDays / stability, this.DECAY);
+  }
+
+  private static nextInterval(stability: number, desiredRetention: number): number {
+    const interval = stability / this.FACTOR * (Math.pow(desiredRetention, 1 / this.DECAY) - 1);
+    return Math.min(this.MAX_INTERVAL, Math.max(1, Math.round(interval)));
+  }
+
+  private static initialDifficulty(rating: FsrsRating): number {
+    return this.clampDifficulty(this.WEIGHTS[4] - (rating - 3) * this.WEIGHTS[5]);
+  }
+
+  private static nextDifficulty(difficulty: number, rating: FsrsRating): number {
+    const w = this.WEIGHTS;
+    const next = difficulty - w[6] * (rating - 3);
+    // Mean reversion towards the initial difficulty of an "Easy" rating
+    return this.clampDifficulty(w[7] * this.initialDifficulty(4) + (1 - w[7]) * next);
+  }
+
+  private static stabilityAfterRecall(state: FsrsMemoryState, retrievability: number, rating: FsrsRating): number {
+    const w = this.WEIGHTS;
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    return state.stability * (
+      1 + Math.exp(w[8]) *
+      (11 - state.difficulty) *
+      Math.pow(state.stability, -w[9]) *
+      (Math.exp(w[10] * (1 - retrievability)) - 1) *
+      hardPenalty *
+      easyBonus
+    );
+  }
+
+  private static stabilityAfterLapse(state: FsrsMemoryState, retrievability: number): number {
+    const w = this.WEIGHTS;
+    const stability = w[11] *
+      Math.pow(state.difficulty, -w[12]) *
+      (Math.pow(state.stability + 1, w[13]) - 1) *
+      Math.exp(w[14] * (1 - retrievability));
+    return Math.min(stability, state.stability);
+  }
+
+  /**
+   * Map the app's 0-5 quality scale onto the four FSRS ratings
+   */
+  private static toRating({ quality, isCorrect }: ReviewResult): FsrsRating {
+    if (quality < 3 || !isCorrect) return 1;
+    if (quality === 3) return 2;
+    if (quality === 4) return 3;
+    return 4;
+  }
+
+  private static elapsedDays(schedule: ReviewSchedule, now: Date): number {
+    const lastReview = schedule.lastReviewDate
+      ?? this.addDays(schedule.nextReviewDate, -schedule.interval);
+    return Math.max(0, (now.getTime() - lastReview.getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  private static difficultyToEaseFactor(difficulty: number): number {
+    const easeFactor = 2.5 - (difficulty - 5.5) * (1.2 / 4.5);
+    return Math.min(this.MAX_EASE_FACTOR, Math.max(this.MIN_EASE_FACTOR, easeFactor));
+  }
+
+  private static clampDifficulty(difficulty: number): number {
+    return Math.min(10, Math.max(1, difficulty));
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    return result;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Learning and relearning steps
+ * New words, and words forgotten during review, are repeated at short intraday steps
+ * (e.g. after 1 and then 10 minutes) before the day-based scheduler takes over again.
+ */
+
+import { balanceInterval, type CardState, type ReviewResult, type ReviewScheduler, type SchedulerOptions } from "./spaced-repetition.js";
+
+export const DEFAULT_LEARNING_STEPS = [1, 10];
+export const DEFAULT_RELEARNING_STEPS = [10];
+
+/**
+ * Wrap a day-based scheduler so that words pass through learning steps first.
+ * At each step "Again" restarts the steps, "Hard" repeats the current step, "Good"
+ * moves on to the next one and "Easy" graduates straight away.
+ */
+export function withLearningSteps(scheduler: ReviewScheduler): ReviewScheduler {
+  return {
+    calculateNextReview(currentSchedule, reviewResult, options = {}) {
+      const state: CardState = currentSchedule?.cardState ?? (currentSchedule ? "review" : "new");
+      const learningSteps = options.learningSteps ?? DEFAULT_LEARNING_STEPS;
+      const relearningSteps = options.relearningSteps ?? DEFAULT_RELEARNING_STEPS;
+      const now = new Date();
+
+      switch (state) {
+        case "new":
+        case "learning": {
+          const step = nextStep(currentSchedule?.learningStep ?? 0, state === "new", learningSteps, reviewResult);
+          if (step >= learningSteps.length) {
+            // Graduate: the first day-based interval, as if the word had just been seen for the first time
+            return { ...scheduler.calculateNextReview(null, reviewResult, options), cardState: "review", learningStep: 0, lastReviewDate: now };
+          }
+          return {
+            nextReviewDate: addMinutes(now, learningSteps[step]),
+            interval: 0,
+            easeFactor: currentSchedule?.easeFactor ?? 2.5,
+            repetitions: 0,
+            stability: currentSchedule?.stability,
+            difficulty: currentSchedule?.difficulty,
+            lastReviewDate: now,
+            cardState: "learning",
+            learningStep: step,
+          };
+        }
+
+        case "review": {
+          const schedule = scheduler.calculateNextReview(currentSchedule, reviewResult, options);
+          if (!isLapse(reviewResult) || relearningSteps.length === 0) {
+            return { ...schedule, cardState: "review", learningStep: 0 };
+          }
+          // The lapse is charged now; its interval is kept for when relearning ends
+          return { ...schedule, nextReviewDate: addMinutes(now, relearningSteps[0]), cardState: "relearning", learningStep: 0 };
+        }
+
+        case "relearning": {
+          const schedule = currentSchedule!;
+          const step = nextStep(schedule.learningStep ?? 0, false, relearningSteps, reviewResult);
+          if (step >= relearningSteps.length) {
+            const interval = balanceInterval(Math.max(1, schedule.interval), options.dueCounts, options.timezoneOffset);
+            return { ...schedule, interval, nextReviewDate: addMinutes(now, interval * 24 * 60), lastReviewDate: now, cardState: "review", learningStep: 0 };
+          }
+          return { ...schedule, nextReviewDate: addMinutes(now, relearningSteps[step]), lastReviewDate: now, cardState: "relearning", learningStep: step };
+        }
+      }
+    },
+  };
+}
+
+function isLapse({ quality, isCorrect }: ReviewResult): boolean {
+  return quality < 3 || !isCorrect;
+}
+
+/**
+ * Step a word moves to after a review. A new word has not waited on any step yet,
+ * so "Good" only moves it to the second step.
+ */
+function nextStep(currentStep: number, isNew: boolean, steps: number[], reviewResult: ReviewResult): number {
+  if (isLapse(reviewResult)) return 0;
+  if (reviewResult.quality >= 5) return steps.length;
+  if (reviewResult.quality === 3) return currentStep;
+  return isNew ? 1 : currentStep + 1;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
@@ -0,0 +1,32 @@
+/**
+ * Roles and permissions
+ * Admins manage users' roles and, like editors, maintain the shared word catalog.
+ * Learners study the catalog and can add private words of their own. A private word
+ * is seen and edited only by the user who added it.
+ */
+
+import type { User, UserRole, Word } from "./schema.js";
+
+type RoleHolder = Pick<User, "id" | "role">;
+
+export function hasRole(user: RoleHolder, ...roles: UserRole[]): boolean {
+  return roles.includes(user.role as UserRole);
+}
+
+/**
+ * Whether the user may add, edit and delete words of the shared catalog
+ */
+export function canManageCatalog(user: RoleHolder): boolean {
+  return hasRole(user, "admin", "editor");
+}
+
+/**
+ * Whether the word is in the shared catalog or is one of the user's private words
+ */
+export function canSeeWord(userId: string | undefined, word: Pick<Word, "ownerId">): boolean {
+  return word.ownerId === null || word.ownerId === userId;
+}
+
+export function canEditWord(user: RoleHolder, word: Pick<Word, "ownerId">): boolean {
+  return word.ownerId === null ? canManageCatalog(user) : word.ownerId === user.id;
+}
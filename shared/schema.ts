@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, real, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, real, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,13 @@ export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
   hashedPassword: text("hashed_password").notNull(),
+  // Review scheduling algorithm: "sm2" or "fsrs"
+  schedulerAlgorithm: text("scheduler_algorithm").notNull().default("sm2"),
+  // Lapses after which a word counts as a leech, and what happens to it then
+  leechThreshold: integer("leech_threshold").notNull().default(8),
+  leechAction: text("leech_action").notNull().default("tag"),
+  // admin, editor or learner; see shared/roles.ts
+  role: text("role").notNull().default("learner"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
@@ -23,12 +30,70 @@ export const words = pgTable("words", {
   difficulty: integer("difficulty").notNull().default(1),
   category: text("category").notNull().default("general"),
   frequency: integer("frequency").notNull().default(1),
+  // Private words are seen and edited only by the user who added them; words of the
+  // shared catalog have no owner
+  ownerId: varchar("owner_id").references((): AnyPgColumn => users.id, { onDelete: 'cascade' }),
+  // Set while the word is in the trash; see shared/trash.ts
+  deletedAt: timestamp("deleted_at"),
+});
+
+// One meaning of a word, e.g. "bank" as a riverside and as a financial institution.
+// The word's own definition and example columns mirror its first sense.
+export const wordSenses = pgTable("word_senses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  // Order of the sense within the word, starting at 0
+  position: integer("position").notNull().default(0),
+  partOfSpeech: text("part_of_speech").notNull(),
+  chineseDefinition: text("chinese_definition").notNull(),
+  englishDefinition: text("english_definition"),
+});
+
+// Example sentences of a word sense. The word's own example columns mirror the first
+// example of its first sense.
+export const wordExamples = pgTable("word_examples", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  senseId: varchar("sense_id").notNull().references(() => wordSenses.id, { onDelete: 'cascade' }),
+  // Order of the example within the sense, starting at 0
+  position: integer("position").notNull().default(0),
+  english: text("english").notNull(),
+  chinese: text("chinese").notNull(),
+  // Where the sentence comes from, e.g. a textbook or dictionary
+  source: text("source"),
+  // 1 (easiest) to 5, like word difficulty
+  difficulty: integer("difficulty").notNull().default(1),
+});
+
+// Changes to a word's content, each with the word as it was before and after. Edits by
+// editors and owners are applied at once; learners' suggestions for shared words stay
+// pending until an editor approves or rejects them.
+export const wordRevisions = pgTable("word_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }),
+  // applied, pending or rejected
+  status: text("status").notNull().default("applied"),
+  // Fields that differ between the snapshots; see shared/word-revisions.ts
+  changedFields: jsonb("changed_fields").$type<WordSnapshotField[]>().notNull().default([]),
+  before: jsonb("before").$type<WordSnapshot>().notNull(),
+  after: jsonb("after").$type<WordSnapshot>().notNull(),
+  // Set when the revision restored the word to how it was before an earlier one
+  revertedRevisionId: varchar("reverted_revision_id").references((): AnyPgColumn => wordRevisions.id, { onDelete: 'set null' }),
+  // Why the change was suggested
+  comment: text("comment"),
+  reviewerId: varchar("reviewer_id").references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const userProgress = pgTable("user_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  // Card template this row schedules; each template of a word is scheduled on its own.
+  // Stars and the vocabulary book are kept on the recognition row.
+  template: text("template").notNull().default("recognition"),
   masteryLevel: integer("mastery_level").notNull().default(0),
   timesStudied: integer("times_studied").notNull().default(0),
   timesCorrect: integer("times_correct").notNull().default(0),
@@ -38,6 +103,18 @@ export const userProgress = pgTable("user_progress", {
   interval: integer("interval").notNull().default(0),
   easeFactor: real("ease_factor").notNull().default(2.5),
   repetitions: integer("repetitions").notNull().default(0),
+  // FSRS memory state, null until the word is first reviewed with FSRS
+  stability: real("stability"),
+  difficulty: real("difficulty"),
+  // new / learning / review / relearning, and the index into the plan's (re)learning steps
+  cardState: text("card_state").notNull().default("new"),
+  learningStep: integer("learning_step").notNull().default(0),
+  // Times the word was forgotten after it had graduated to review
+  lapses: integer("lapses").notNull().default(0),
+  isLeech: boolean("is_leech").notNull().default(false),
+  // Suspended words are never scheduled; buried words are skipped until the given time
+  isSuspended: boolean("is_suspended").notNull().default(false),
+  buriedUntil: timestamp("buried_until"),
   isStarred: boolean("is_starred").notNull().default(false),
   isInVocabularyBook: boolean("is_in_vocabulary_book").notNull().default(false),
 });
@@ -49,7 +126,16 @@ export const studySessions = pgTable("study_sessions", {
   wordsLearned: integer("words_learned").notNull().default(0),
   timeSpent: integer("time_spent").notNull().default(0),
   accuracy: real("accuracy").notNull().default(0),
+  // Distinct words answered, split by whether they had been reviewed before the session
+  newWords: integer("new_words").notNull().default(0),
+  reviewedWords: integer("reviewed_words").notNull().default(0),
+  // The session's queue and the answers given so far, so it can be resumed on any device
+  items: jsonb("items").$type<StudySessionItem[]>().notNull().default([]),
+  currentIndex: integer("current_index").notNull().default(0),
+  // active until the learner finishes the queue, then completed
+  status: text("status").notNull().default("active"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
 export const practiceResults = pgTable("practice_results", {
@@ -61,7 +147,40 @@ export const practiceResults = pgTable("practice_results", {
   isCorrect: boolean("is_correct").notNull(),
   userAnswer: text("user_answer"),
   correctAnswer: text("correct_answer").notNull(),
+  // Milliseconds spent answering
   timeSpent: integer("time_spent").notNull().default(0),
+  // The review behind an answer given in a study session, so undoing the review removes it
+  reviewLogId: varchar("review_log_id").references(() => reviewLogs.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Lists of words a user groups together, e.g. the words of one textbook unit. Public
+// collections are shared as decks other users can subscribe to or fork.
+export const collections = pgTable("collections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  description: text("description"),
+  isPublic: boolean("is_public").notNull().default(false),
+  // The deck this collection was copied from, if it is a fork
+  forkedFromId: varchar("forked_from_id").references((): AnyPgColumn => collections.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+export const collectionWords = pgTable("collection_words", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  collectionId: varchar("collection_id").notNull().references(() => collections.id, { onDelete: 'cascade' }),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  addedAt: timestamp("added_at").notNull().default(sql`now()`),
+});
+
+// Decks a user follows. Subscribers study the deck's words as its owner keeps them,
+// with their own progress on each word.
+export const collectionSubscriptions = pgTable("collection_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  collectionId: varchar("collection_id").notNull().references(() => collections.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
 export const studyPlans = pgTable("study_plans", {
@@ -69,15 +188,83 @@ export const studyPlans = pgTable("study_plans", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
   name: text("name").notNull(),
   targetCategory: text("target_category").notNull(),
+  // When set, new words come from this collection instead of the target category
+  targetCollectionId: varchar("target_collection_id").references(() => collections.id, { onDelete: 'set null' }),
   dailyWordCount: integer("daily_word_count").notNull().default(20),
   studyDuration: integer("study_duration").notNull().default(30),
   reviewStrategy: text("review_strategy").notNull().default("spaced"),
+  // Recall probability reviews are scheduled for, and the most due reviews served per day
+  desiredRetention: real("desired_retention").notNull().default(0.9),
+  maxReviewsPerDay: integer("max_reviews_per_day").notNull().default(100),
+  // Intraday steps in minutes before new words, and words forgotten in review, are scheduled in days
+  learningSteps: jsonb("learning_steps").notNull().default('[1, 10]'),
+  relearningSteps: jsonb("relearning_steps").notNull().default('[10]'),
+  // Order in which new words of the target category are introduced; the seed fixes the random order
+  newWordOrder: text("new_word_order").notNull().default("frequency"),
+  newWordSeed: integer("new_word_seed").notNull().default(sql`floor(random() * 1000000)`),
+  // Card templates studied for each word of the plan
+  cardTemplates: jsonb("card_templates").notNull().default('["recognition"]'),
   studyFocus: jsonb("study_focus").notNull().default('[]'),
   weeklySchedule: jsonb("weekly_schedule").notNull().default('[]'),
   isActive: boolean("is_active").notNull().default(false),
+  // Set while the plan is in the trash
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
 });
 
+// Append-only history of graded reviews. Rows are written by the server when it
+// schedules a review and are never updated; undoing a review deletes its row.
+export const reviewLogs = pgTable("review_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  template: text("template").notNull().default("recognition"),
+  grade: integer("grade").notNull(),
+  responseTime: integer("response_time"),
+  scheduler: text("scheduler").notNull().default("sm2"),
+  // Card state the word was in when it was reviewed
+  cardState: text("card_state").notNull().default("review"),
+  // Schedule before and after this review
+  previousInterval: integer("previous_interval").notNull().default(0),
+  previousEaseFactor: real("previous_ease_factor").notNull().default(2.5),
+  interval: integer("interval").notNull(),
+  easeFactor: real("ease_factor").notNull(),
+  repetitions: integer("repetitions").notNull(),
+  stability: real("stability"),
+  difficulty: real("difficulty"),
+  nextReview: timestamp("next_review").notNull(),
+  reviewedAt: timestamp("reviewed_at").notNull().default(sql`now()`),
+  // Undone reviews stay in the log but no longer count
+  undoneAt: timestamp("undone_at"),
+});
+
+// User progress as it was before each of a user's most recent reviews, so those
+// reviews can be undone. Only the latest few per user are kept.
+export const reviewSnapshots = pgTable("review_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  wordId: varchar("word_id").notNull().references(() => words.id, { onDelete: 'cascade' }),
+  template: text("template").notNull().default("recognition"),
+  reviewLogId: varchar("review_log_id").notNull().references(() => reviewLogs.id, { onDelete: 'cascade' }),
+  // Null when the word had no progress row before the review
+  progress: jsonb("progress").$type<UserProgress | null>(),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// Personalised SM-2 parameters fitted from each user's review history
+export const schedulerParams = pgTable("scheduler_params", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+  easeBonus: real("ease_bonus").notNull(),
+  easePenaltyLinear: real("ease_penalty_linear").notNull(),
+  easePenaltyQuadratic: real("ease_penalty_quadratic").notNull(),
+  intervalModifier: real("interval_modifier").notNull(),
+  targetRetention: real("target_retention").notNull().default(0.9),
+  sampleSize: integer("sample_size").notNull(),
+  observedRetention: real("observed_retention"),
+  estimatedRetention: real("estimated_retention"),
+  fittedAt: timestamp("fitted_at").notNull().default(sql`now()`),
+});
+
 
 // ===== ZOD SCHEMAS FOR VALIDATION =====
 
@@ -90,14 +277,190 @@ export const signupSchema = z.object({
   password: z.string().min(8, { message: "Password must be at least 8 characters long" }),
 });
 
-export const insertWordSchema = createInsertSchema(words).omit({ id: true });
+export const USER_ROLES = ["admin", "editor", "learner"] as const;
+
+export const WORD_REVISION_STATUSES = ["applied", "pending", "rejected"] as const;
+
+export const insertWordSchema = createInsertSchema(words).omit({ id: true, deletedAt: true });
+
+// An example as submitted with its sense; one with the id of an existing example of the sense updates it
+export const wordExampleSchema = z.object({
+  id: z.string().optional(),
+  english: z.string().min(1),
+  chinese: z.string().min(1),
+  source: z.string().nullish(),
+  difficulty: z.number().int().min(1).max(5).optional(),
+});
+
+// A sense as submitted with its word; positions follow the order of the array. Senses
+// with the id of one of the word's senses update it, so references to it survive edits.
+export const wordSenseInputSchema = z.object({
+  id: z.string().optional(),
+  partOfSpeech: z.string().min(1),
+  chineseDefinition: z.string().min(1),
+  englishDefinition: z.string().nullish(),
+  examples: z.array(wordExampleSchema).default([]),
+});
+
+// Who owns a word follows from who adds it, so clients never set it
+const wordWithSensesFields = insertWordSchema.omit({ ownerId: true }).extend({
+  senses: z.array(wordSenseInputSchema).min(1).optional(),
+});
+
+// Body of POST /api/words. With senses, the definition and example columns are taken
+// from the first sense and may be left out. Words added by learners are always private;
+// editors and admins add to the shared catalog unless isPrivate is set.
+export const createWordSchema = wordWithSensesFields
+  .extend({ isPrivate: z.boolean().optional() })
+  .partial({ partOfSpeech: true, chineseDefinition: true, englishExample: true, chineseExample: true })
+  .refine(word => word.senses !== undefined || (word.partOfSpeech && word.chineseDefinition && word.englishExample && word.chineseExample), {
+    message: "Either senses or the part of speech, definition and example are required",
+  });
+
+// Body of PUT /api/words/:id. Senses, when given, replace all of the word's senses.
+export const updateWordSchema = wordWithSensesFields.partial();
 export const insertUserProgressSchema = createInsertSchema(userProgress).omit({ id: true });
-export const insertStudySessionSchema = createInsertSchema(studySessions).omit({ id: true, createdAt: true });
-export const insertPracticeResultSchema = createInsertSchema(practiceResults).omit({ id: true });
+
+// recognition: English → Chinese; production: Chinese → English; listening: audio → spelling;
+// cloze: the word blanked out of its example sentence
+export const CARD_TEMPLATES = ["recognition", "production", "listening", "cloze"] as const;
+
+// One card or exercise of a persisted session, with the answer once given. Practice
+// items keep the generated exercise so a resumed session shows the same question.
+export const studySessionItemSchema = z.object({
+  wordId: z.string().min(1),
+  template: z.enum(CARD_TEMPLATES).optional(),
+  // The sense the card or exercise asks about, for words with several
+  senseId: z.string().optional(),
+  exercise: z.object({
+    type: z.string(),
+    question: z.string(),
+    options: z.array(z.string()).optional(),
+    correctAnswer: z.string(),
+  }).optional(),
+  result: z.object({
+    quality: z.number().int().min(0).max(5).optional(),
+    userAnswer: z.string().optional(),
+    isCorrect: z.boolean().optional(),
+  }).optional(),
+});
+
+export const insertStudySessionSchema = createInsertSchema(studySessions, {
+  items: z.array(studySessionItemSchema).optional(),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPracticeResultSchema = createInsertSchema(practiceResults).omit({ id: true, createdAt: true });
+export const insertReviewLogSchema = createInsertSchema(reviewLogs).omit({ id: true, reviewedAt: true, undoneAt: true });
+export const insertSchedulerParamsSchema = createInsertSchema(schedulerParams).omit({ fittedAt: true });
+// frequency: most frequent first; difficulty: easiest first; random: shuffled by the plan's seed
+export const NEW_WORD_ORDERS = ["frequency", "difficulty", "alphabetical", "random"] as const;
+
 export const insertStudyPlanSchema = createInsertSchema(studyPlans, {
   studyFocus: z.array(z.string()),
   weeklySchedule: z.array(z.boolean()),
-}).omit({ id: true, createdAt: true });
+  desiredRetention: z.number().min(0.7).max(0.99).optional(),
+  maxReviewsPerDay: z.number().int().min(1).max(1000).optional(),
+  learningSteps: z.array(z.number().int().min(1).max(1440)).max(10).optional(),
+  relearningSteps: z.array(z.number().int().min(1).max(1440)).max(10).optional(),
+  newWordOrder: z.enum(NEW_WORD_ORDERS).optional(),
+  newWordSeed: z.number().int().min(0).optional(),
+  cardTemplates: z.array(z.enum(CARD_TEMPLATES)).min(1).optional(),
+}).omit({ id: true, createdAt: true, deletedAt: true });
+
+// Body of PATCH /api/study-plans/:id; plans are switched on only through /activate
+export const updateStudyPlanSchema = insertStudyPlanSchema.omit({ userId: true, isActive: true }).partial().strict();
+
+export const insertCollectionSchema = createInsertSchema(collections, {
+  name: z.string().trim().min(1).max(50),
+  description: z.string().trim().max(500).nullish(),
+}).omit({ id: true, createdAt: true, forkedFromId: true });
+
+// Body of POST /api/words/:id/suggestions: a correction of a shared word for editors to review
+export const wordSuggestionSchema = updateWordSchema.extend({
+  comment: z.string().trim().max(500).optional(),
+});
+
+// Body of PATCH /api/users/:id/role
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+// Body of PATCH /api/collections/:id; making a collection public publishes it as a deck
+export const updateCollectionSchema = insertCollectionSchema.pick({ name: true, description: true, isPublic: true }).partial();
+
+// Body of POST /api/decks/:id/fork; the copy keeps the deck's name unless one is given
+export const forkDeckSchema = insertCollectionSchema.pick({ name: true }).partial();
+
+// Query of GET /api/decks
+export const deckQuerySchema = z.object({
+  search: z.string().trim().optional(),
+});
+
+// Grades of the four answer buttons on the 0-5 quality scale. Grades below 3 are a
+// failed recall; FSRS maps 3, 4 and 5 onto its Hard, Good and Easy ratings.
+export const REVIEW_GRADES = { again: 1, hard: 3, good: 4, easy: 5 } as const;
+
+// Reviews per user that POST /api/reviews/undo can take back, newest first
+export const UNDO_HISTORY_SIZE = 10;
+
+// Body of POST /api/reviews. Only the grade is client-supplied; the schedule is computed server-side.
+// Reviews given in a study session are also recorded as that session's practice results.
+export const reviewSubmissionSchema = z.object({
+  wordId: z.string().min(1),
+  template: z.enum(CARD_TEMPLATES).default("recognition"),
+  grade: z.number().int().min(0).max(5),
+  responseTime: z.number().int().min(0).optional(),
+  sessionId: z.string().min(1).optional(),
+  // The learner's Date.getTimezoneOffset(), so due dates are balanced over their own days
+  timezoneOffset: z.number().int().min(-14 * 60).max(12 * 60).optional(),
+});
+
+// Body of POST /api/practice-results; the user comes from the session cookie
+export const practiceResultSubmissionSchema = insertPracticeResultSchema.omit({ userId: true, reviewLogId: true }).extend({
+  timeSpent: z.number().int().min(0).optional(),
+});
+
+export const userSettingsSchema = z.object({
+  schedulerAlgorithm: z.enum(["sm2", "fsrs"]),
+  leechThreshold: z.number().int().min(2).max(50),
+  // tag: only mark the word; suspend: also stop scheduling it; vocabularyBook: also add it to the vocabulary book
+  leechAction: z.enum(["tag", "suspend", "vocabularyBook"]),
+}).partial().strict();
+
+// Body of POST /api/study-sessions: the session's queue, built by the client from the
+// review and new-card queues (study) or from generated exercises (practice)
+export const startStudySessionSchema = z.object({
+  sessionType: z.string().min(1),
+  items: z.array(studySessionItemSchema).min(1),
+});
+
+// Body of PUT /api/study-sessions/:id: progress through the queue only. Statistics and
+// status are set by the server when the session is completed.
+export const studySessionProgressSchema = z.object({
+  items: z.array(studySessionItemSchema),
+  currentIndex: z.number().int().min(0),
+}).partial().strict();
+
+// Body of the per-word scheduling controls (suspend, bury, reset); without a template
+// the control applies to every card of the word
+export const wordControlSchema = z.object({
+  template: z.enum(CARD_TEMPLATES).optional(),
+}).strict();
+
+// Fields of user progress that clients may still set directly.
+export const progressFlagsSchema = z.object({
+  isStarred: z.boolean(),
+  isInVocabularyBook: z.boolean(),
+}).partial().strict();
+
+// Query of GET /api/study-sessions. Dates are calendar days (YYYY-MM-DD) and both
+// ends are inclusive.
+export const studySessionQuerySchema = z.object({
+  type: z.string().min(1).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
 
 
 // ===== TYPES FOR USE IN APPLICATION CODE =====
@@ -108,17 +471,146 @@ export type UserProgress = typeof userProgress.$inferSelect;
 export type StudySession = typeof studySessions.$inferSelect;
 export type PracticeResult = typeof practiceResults.$inferSelect;
 export type StudyPlan = typeof studyPlans.$inferSelect;
+export type ReviewLog = typeof reviewLogs.$inferSelect;
+export type SchedulerParams = typeof schedulerParams.$inferSelect;
+export type ReviewSnapshot = typeof reviewSnapshots.$inferSelect;
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertWord = z.infer<typeof insertWordSchema>;
+export type WordSense = typeof wordSenses.$inferSelect;
+export type WordExample = typeof wordExamples.$inferSelect;
+export type WordExampleInput = z.infer<typeof wordExampleSchema>;
+export type WordSenseInput = z.infer<typeof wordSenseInputSchema>;
+export type CreateWord = z.infer<typeof createWordSchema>;
+export type UpdateWord = z.infer<typeof updateWordSchema>;
 export type InsertUserProgress = z.infer<typeof insertUserProgressSchema>;
 export type InsertStudySession = z.infer<typeof insertStudySessionSchema>;
 export type InsertPracticeResult = z.infer<typeof insertPracticeResultSchema>;
 export type InsertStudyPlan = z.infer<typeof insertStudyPlanSchema>;
+export type UpdateStudyPlan = z.infer<typeof updateStudyPlanSchema>;
+export type Collection = typeof collections.$inferSelect;
+export type CollectionWord = typeof collectionWords.$inferSelect;
+// Forks are created by the server, so only it sets forkedFromId
+export type InsertCollection = Omit<typeof collections.$inferInsert, "id" | "createdAt">;
+export type UpdateCollection = z.infer<typeof updateCollectionSchema>;
+export type CollectionSubscription = typeof collectionSubscriptions.$inferSelect;
+export type WordRevision = typeof wordRevisions.$inferSelect;
+// Revisions are only written by the server
+export type InsertWordRevision = Omit<typeof wordRevisions.$inferInsert, "id" | "createdAt">;
+export type WordSuggestion = z.infer<typeof wordSuggestionSchema>;
+export type InsertReviewLog = z.infer<typeof insertReviewLogSchema>;
+export type InsertSchedulerParams = z.infer<typeof insertSchedulerParamsSchema>;
+// Snapshots are only written by the server, so there is no zod schema to infer from
+export type InsertReviewSnapshot = Omit<typeof reviewSnapshots.$inferInsert, "id" | "createdAt">;
+export type ReviewSubmission = z.infer<typeof reviewSubmissionSchema>;
+export type StudySessionItem = z.infer<typeof studySessionItemSchema>;
+export type StartStudySession = z.infer<typeof startStudySessionSchema>;
+export type StudySessionProgress = z.infer<typeof studySessionProgressSchema>;
+export type PracticeResultSubmission = z.infer<typeof practiceResultSubmissionSchema>;
+export type StudySessionQuery = z.infer<typeof studySessionQuerySchema>;
+export type UserSettings = Required<z.infer<typeof userSettingsSchema>>;
+export type NewWordOrder = typeof NEW_WORD_ORDERS[number];
+export type CardTemplate = typeof CARD_TEMPLATES[number];
+export type ReviewGrade = typeof REVIEW_GRADES[keyof typeof REVIEW_GRADES];
+export type UserRole = typeof USER_ROLES[number];
+export type WordRevisionStatus = typeof WORD_REVISION_STATUSES[number];
+
+// A user as listed for admins
+export type UserSummary = Pick<User, "id" | "email" | "role" | "createdAt">;
 
 // Helper types for API responses, not directly in DB
 export type WordWithProgress = Word & {
   progress?: UserProgress;
+  // Attached by the endpoints that serve words for studying; see shared/word-senses.ts
+  senses?: WordSenseDetail[];
+};
+
+export type WordSenseDetail = WordSense & {
+  examples: WordExample[];
+};
+
+// A persisted session with each item's word, for resuming it and for its summary,
+// and the answers recorded for it
+export type StudySessionDetail = Omit<StudySession, "items"> & {
+  items: (StudySessionItem & { word: WordWithProgress })[];
+  practiceResults: (PracticeResult & { word: Word })[];
+};
+
+// One page of the session history; sessions are listed without their queues
+export type StudySessionPage = {
+  sessions: Omit<StudySession, "items">[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// A collection as listed for its owner or subscribers, with the words in it in the order
+// they were added
+export type CollectionWithWords = Collection & {
+  wordIds: string[];
+};
+
+// A public deck as listed for browsing. The owner is shown by a masked email.
+export type PublicDeck = Omit<Collection, "userId"> & {
+  ownerName: string;
+  wordCount: number;
+  subscriberCount: number;
+  isOwn: boolean;
+  isSubscribed: boolean;
+};
+
+export type PublicDeckDetail = PublicDeck & {
+  words: WordWithProgress[];
+};
+
+// Deleted words and plans the user can still restore
+export type TrashContents = {
+  words: Word[];
+  plans: StudyPlan[];
+};
+
+// A word's content as kept in its revisions. Senses keep their ids, so restoring a
+// snapshot updates the senses that still exist instead of recreating them.
+export type WordSnapshot = Pick<Word, WordSnapshotColumn> & {
+  senses: WordSenseInput[];
+};
+
+export type WordSnapshotColumn = "word" | "phonetic" | "partOfSpeech" | "chineseDefinition" | "englishExample" | "chineseExample" | "difficulty" | "category" | "frequency";
+export type WordSnapshotField = WordSnapshotColumn | "senses";
+
+// A revision as listed in a word's history and the review queue. Authors and reviewers
+// are shown by masked emails.
+export type WordRevisionDetail = WordRevision & {
+  authorName: string;
+  reviewerName: string | null;
+};
+
+// One card of a study session: a word shown through one of its templates
+export type StudyCard = WordWithProgress & {
+  template: CardTemplate;
+};
+
+export type SchedulerParamsReport = {
+  params: Pick<SchedulerParams, "easeBonus" | "easePenaltyLinear" | "easePenaltyQuadratic" | "intervalModifier">;
+  // True while there is too little history to personalise and the SM-2 defaults apply
+  isDefault: boolean;
+  sampleSize: number;
+  targetRetention: number;
+  observedRetention: number | null;
+  estimatedRetention: number | null;
+  fittedAt: string;
+};
+
+export type ReviewOutcome = {
+  progress: UserProgress;
+  log: ReviewLog;
+  // True when this review made the word a leech and the user's leech action was applied
+  becameLeech: boolean;
+};
+
+export type UndoOutcome = {
+  wordId: string;
+  progress: UserProgress;
 };
 
 export type DashboardStats = {
@@ -136,4 +628,22 @@ export type DashboardStats = {
     regular: number;
     consolidation: number;
   };
-};
\ No newline at end of file
+};
+export type WordImportMode = "skip" | "merge";
+
+export type WordImportRowResult = {
+  row: number;
+  word?: string;
+  status: "created" | "updated" | "skipped" | "invalid";
+  reason?: string;
+  wordId?: string;
+};
+
+export type WordImportReport = {
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  invalid: number;
+  rows: WordImportRowResult[];
+};
@@ -8,6 +8,13 @@ export interface ReviewSchedule {
   interval: number; // days until next review
   easeFactor: number; // multiplier for interval calculation
   repetitions: number; // number of successful reviews
+  // FSRS memory state; absent for words only ever scheduled with SM-2
+  stability?: number | null; // days until recall probability drops to 90%
+  difficulty?: number | null; // 1 (easy) to 10 (hard)
+  lastReviewDate?: Date | null;
+  // Learning state; absent means the word is in review
+  cardState?: CardState;
+  learningStep?: number; // index into the learning or relearning steps
 }
 
 export interface ReviewResult {
@@ -16,6 +23,88 @@ export interface ReviewResult {
   isCorrect: boolean;
 }
 
+export type SchedulerAlgorithm = "sm2" | "fsrs";
+
+export type CardState = "new" | "learning" | "review" | "relearning";
+
+/**
+ * Tunable SM-2 parameters. The ease factor changes by
+ * easeBonus - (5 - q) * (easePenaltyLinear + (5 - q) * easePenaltyQuadratic)
+ * after a successful review of quality q, and long intervals are scaled by intervalModifier.
+ */
+export interface Sm2Parameters {
+  easeBonus: number;
+  easePenaltyLinear: number;
+  easePenaltyQuadratic: number;
+  intervalModifier: number;
+}
+
+export const DEFAULT_SM2_PARAMETERS: Sm2Parameters = {
+  easeBonus: 0.1,
+  easePenaltyLinear: 0.08,
+  easePenaltyQuadratic: 0.02,
+  intervalModifier: 1,
+};
+
+export interface SchedulerOptions {
+  sm2Parameters?: Sm2Parameters; // personalised SM-2 parameters, used by SM-2 only
+  desiredRetention?: number; // target recall probability, used by FSRS only
+  dueCounts?: Record<string, number>; // words already due per day (YYYY-MM-DD, see dayKey), for load balancing
+  timezoneOffset?: number; // the learner's Date.getTimezoneOffset(), which the due count days are in
+  learningSteps?: number[]; // minutes between reviews of new words before they graduate
+  relearningSteps?: number[]; // minutes between reviews of forgotten words before they return to review
+}
+
+// Fuzz window as a share of the interval, by interval length in days
+const FUZZ_RANGES = [
+  { minInterval: 2.5, factor: 0.15 },
+  { minInterval: 7, factor: 0.1 },
+  { minInterval: 20, factor: 0.05 },
+];
+
+/**
+ * The calendar day of a date as YYYY-MM-DD, in the timezone with the given offset in
+ * minutes (as returned by Date.getTimezoneOffset(); 0 is UTC)
+ */
+export function dayKey(date: Date, timezoneOffset = 0): string {
+  return new Date(date.getTime() - timezoneOffset * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Spread due dates so that words graded alike on the same day do not all come back
+ * on the same day. The interval may move within a fuzz window around it; within the
+ * window the day with the fewest words already due is chosen, ties broken at random.
+ * Without due counts this is plain random fuzzing. Intervals under 2.5 days are kept.
+ */
+export function balanceInterval(interval: number, dueCounts: Record<string, number> = {}, timezoneOffset = 0, now: Date = new Date()): number {
+  let factor = 0;
+  for (const range of FUZZ_RANGES) {
+    if (interval >= range.minInterval) factor = range.factor;
+  }
+  if (factor === 0) return interval;
+
+  const delta = Math.max(1, Math.round(interval * factor));
+  const candidates: number[] = [];
+  let lowestCount = Infinity;
+  for (let days = Math.max(2, interval - delta); days <= interval + delta; days++) {
+    const day = dayKey(new Date(now.getTime() + days * 24 * 60 * 60 * 1000), timezoneOffset);
+    const dueCount = dueCounts[day] ?? 0;
+    if (dueCount < lowestCount) {
+      lowestCount = dueCount;
+      candidates.length = 0;
+    }
+    if (dueCount === lowestCount) candidates.push(days);
+  }
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
+/**
+ * Common shape of the scheduling algorithms, so callers can pick one per user
+ */
+export interface ReviewScheduler {
+  calculateNextReview(currentSchedule: ReviewSchedule | null, reviewResult: ReviewResult, options?: SchedulerOptions): ReviewSchedule;
+}
+
 export class SpacedRepetitionScheduler {
   private static readonly MIN_EASE_FACTOR = 1.3;
   private static readonly INITIAL_EASE_FACTOR = 2.5;
@@ -26,9 +115,11 @@ export class SpacedRepetitionScheduler {
    */
   static calculateNextReview(
     currentSchedule: ReviewSchedule | null,
-    reviewResult: ReviewResult
+    reviewResult: ReviewResult,
+    options: SchedulerOptions = {}
   ): ReviewSchedule {
     const { quality, isCorrect } = reviewResult;
+    const params = options.sm2Parameters ?? DEFAULT_SM2_PARAMETERS;
     
     // Initialize for new words
     if (!currentSchedule) {
@@ -55,11 +146,12 @@ export class SpacedRepetitionScheduler {
       } else if (repetitions === 2) {
         interval = 6;
       } else {
-        interval = Math.round(interval * easeFactor);
+        interval = Math.max(1, Math.round(interval * easeFactor * params.intervalModifier));
       }
+      interval = balanceInterval(interval, options.dueCounts, options.timezoneOffset);
 
       // Adjust ease factor based on quality
-      easeFactor = easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+      easeFactor = easeFactor + (params.easeBonus - (5 - quality) * (params.easePenaltyLinear + (5 - quality) * params.easePenaltyQuadratic));
       easeFactor = Math.max(easeFactor, this.MIN_EASE_FACTOR);
     }
 
@@ -0,0 +1,24 @@
+/**
+ * Trash
+ * Deleting a word or a study plan moves it to the trash, where it can be restored for
+ * a while. Learners' progress and review history on a deleted word are kept until the
+ * word is purged, once the retention window has passed.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When an item deleted at the given time is purged for good
+ */
+export function trashExpiresAt(deletedAt: Date | string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+/**
+ * Items deleted before this time are past the retention window
+ */
+export function trashCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - TRASH_RETENTION_DAYS * DAY_MS);
+}
@@ -0,0 +1,65 @@
+/**
+ * Word revisions
+ * Every change to a word's content is kept as a snapshot of the word before and after
+ * it. Snapshots hold the word's columns and its senses with their examples, so a diff
+ * can be shown field by field and the word restored to any earlier snapshot.
+ */
+
+import { getWordSenses, type SensedWord } from "./word-senses.js";
+import type { UpdateWord, WordSnapshot, WordSnapshotColumn, WordSnapshotField } from "./schema.js";
+
+export const WORD_SNAPSHOT_COLUMNS: WordSnapshotColumn[] = [
+  "word", "phonetic", "partOfSpeech", "chineseDefinition", "englishExample", "chineseExample", "difficulty", "category", "frequency",
+];
+
+export function toWordSnapshot(word: SensedWord): WordSnapshot {
+  const columns = Object.fromEntries(WORD_SNAPSHOT_COLUMNS.map(column => [column, word[column]])) as Pick<WordSnapshot, WordSnapshotColumn>;
+  return {
+    ...columns,
+    senses: getWordSenses(word).map(sense => ({
+      id: sense.id,
+      partOfSpeech: sense.partOfSpeech,
+      chineseDefinition: sense.chineseDefinition,
+      englishDefinition: sense.englishDefinition ?? null,
+      examples: sense.examples.map(example => ({
+        id: example.id,
+        english: example.english,
+        chinese: example.chinese,
+        source: example.source ?? null,
+        difficulty: example.difficulty ?? 1,
+      })),
+    })),
+  };
+}
+
+// Senses compared by content only: ids change when a sense is recreated, and empty
+// optional texts may be stored as either null or ""
+function sensesContent(snapshot: WordSnapshot): string {
+  return JSON.stringify(snapshot.senses.map(sense => ({
+    partOfSpeech: sense.partOfSpeech,
+    chineseDefinition: sense.chineseDefinition,
+    englishDefinition: sense.englishDefinition || null,
+    examples: sense.examples.map(example => ({
+      english: example.english,
+      chinese: example.chinese,
+      source: example.source || null,
+      difficulty: example.difficulty ?? 1,
+    })),
+  })));
+}
+
+/**
+ * Fields whose values differ between two snapshots of a word
+ */
+export function diffWordSnapshots(before: WordSnapshot, after: WordSnapshot): WordSnapshotField[] {
+  const changed: WordSnapshotField[] = WORD_SNAPSHOT_COLUMNS.filter(column => before[column] !== after[column]);
+  if (sensesContent(before) !== sensesContent(after)) changed.push("senses");
+  return changed;
+}
+
+/**
+ * The word update that sets the given fields to their values in the snapshot
+ */
+export function snapshotUpdates(snapshot: WordSnapshot, fields: WordSnapshotField[] = [...WORD_SNAPSHOT_COLUMNS, "senses"]): UpdateWord {
+  return Object.fromEntries(fields.map(field => [field, snapshot[field]]));
+}
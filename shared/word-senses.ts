@@ -0,0 +1,84 @@
+/**
+ * Word senses
+ * A word can have several meanings, each with its own part of speech, definitions and
+ * examples. The word's own definition and example columns mirror its first sense, so
+ * words stored before senses existed read as having that one sense.
+ */
+
+import type { InsertWord, Word, WordExampleInput, WordSenseDetail, WordSenseInput } from "./schema.js";
+
+// A sense as shown to learners; senses read from the word's columns have no id
+export type WordSenseContent = WordSenseInput;
+
+export type SensedWord = Word & { senses?: WordSenseDetail[] };
+
+type SenseColumns = Pick<InsertWord, "partOfSpeech" | "chineseDefinition" | "englishExample" | "chineseExample">;
+
+export function senseFromColumns(word: SenseColumns): WordSenseContent {
+  return {
+    partOfSpeech: word.partOfSpeech,
+    chineseDefinition: word.chineseDefinition,
+    englishDefinition: null,
+    examples: word.englishExample ? [{ english: word.englishExample, chinese: word.chineseExample }] : [],
+  };
+}
+
+/**
+ * Values of the word columns that mirror the first sense
+ */
+export function columnsFromSense(sense: WordSenseContent): SenseColumns {
+  return {
+    partOfSpeech: sense.partOfSpeech,
+    chineseDefinition: sense.chineseDefinition,
+    englishExample: sense.examples[0]?.english ?? "",
+    chineseExample: sense.examples[0]?.chinese ?? "",
+  };
+}
+
+/**
+ * Senses of a word in order, falling back to the one read from its columns when the
+ * word was served without senses or has none stored
+ */
+export function getWordSenses(word: SensedWord): WordSenseContent[] {
+  return word.senses && word.senses.length > 0 ? word.senses : [senseFromColumns(word)];
+}
+
+/**
+ * The sense with the given id, or the first sense if there is none
+ */
+export function findSense(word: SensedWord, senseId?: string): WordSenseContent {
+  const senses = getWordSenses(word);
+  return senses.find(sense => senseId !== undefined && sense.id === senseId) ?? senses[0];
+}
+
+/**
+ * A random sense, so every meaning of a word gets studied over time. With `containing`,
+ * senses with an example that contains that text are preferred.
+ */
+export function pickRandomSense(word: SensedWord, containing?: string): WordSenseContent {
+  const senses = getWordSenses(word);
+  const matching = containing === undefined ? senses : senses.filter(sense => pickExample(sense, 0, containing));
+  const pool = matching.length > 0 ? matching : senses;
+  return pool[Math.floor(Math.random() * pool.length)];
+}
+
+/**
+ * The example to show for a sense on the given rotation, e.g. the number of times the
+ * word was studied, so that each review uses the next sentence. Examples go from the
+ * easiest to the hardest; with `containing`, only those that contain that text are
+ * used, as fill-in-the-blank questions need the word in the sentence.
+ */
+export function pickExample(sense: WordSenseContent, rotation: number, containing?: string): WordExampleInput | undefined {
+  const examples = sense.examples
+    .filter(example => !containing || example.english.toLowerCase().includes(containing.toLowerCase()))
+    .sort((a, b) => (a.difficulty ?? 1) - (b.difficulty ?? 1));
+  return examples.length > 0 ? examples[rotation % examples.length] : undefined;
+}
+
+/**
+ * Whether the word can be asked as a fill-in-the-blank card, which needs an example
+ * sentence that contains the word
+ */
+export function hasClozeExample(word: SensedWord): boolean {
+  return getWordSenses(word).some(sense => pickExample(sense, 0, word.word) !== undefined);
+}